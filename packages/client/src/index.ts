@@ -0,0 +1,244 @@
+import { hc } from 'hono/client';
+import type { ClientResponse, InferRequestType, InferResponseType } from 'hono/client';
+import type { SuccessStatusCode } from 'hono/utils/http-status';
+import type { AppType } from '../../../src/app.js';
+
+export type { AppType, InferRequestType, InferResponseType };
+
+// The typed client, one property per path segment, e.g. api.notepads[':id'].$get({ param: { id: '1' } })
+export type ApiClient = ReturnType<typeof hc<AppType>>;
+
+// The access token and the refresh token of a signed in user
+export type Tokens = {
+  token: string;
+  refreshToken: string;
+};
+
+// Where the client keeps the tokens, e.g. in memory or in localStorage
+export type TokenStore = {
+  get(): Tokens | null;
+  set(tokens: Tokens | null): void;
+};
+
+export type ClientOptions = {
+  tokens?: TokenStore;
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+};
+
+// The body of the successful JSON responses of a route
+export type SuccessBody<R> = R extends ClientResponse<infer T, infer S, 'json'> ? (S extends SuccessStatusCode ? T : never) : never;
+
+// The body of the error responses of a route
+export type ErrorBody<R> = R extends ClientResponse<infer T, infer S, 'json'> ? (S extends SuccessStatusCode ? never : T) : never;
+
+// The pagination block of list endpoints
+export type Pagination = SuccessBody<Awaited<ReturnType<ApiClient['public']['notepads']['$get']>>>['pagination'];
+
+/**
+ * Keeps the tokens in memory, they are gone when the process or page goes away
+ * @param {Tokens | null} [initial] - Tokens to start with
+ * @returns {TokenStore}
+ */
+export function memoryTokenStore(initial: Tokens | null = null): TokenStore {
+  let tokens = initial;
+  return {
+    get: () => tokens,
+    set: (next) => {
+      tokens = next;
+    },
+  };
+}
+
+/**
+ * Thrown by unwrap() for responses that are not 2xx, with the error body the API sent
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: string | undefined;
+  readonly body: unknown;
+
+  constructor(status: number, body: unknown) {
+    const error = typeof body === 'object' && body !== null ? (body as Record<string, unknown>).error : undefined;
+    super(typeof error === 'string' ? error : `Request failed with status ${status}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+
+    const code = typeof body === 'object' && body !== null ? (body as Record<string, unknown>).code : undefined;
+    this.code = typeof code === 'string' ? code : undefined;
+  }
+}
+
+/**
+ * Reads the body of a successful response, or throws an ApiError
+ * @param {R | Promise<R>} response - A response of the typed client
+ * @returns {Promise<SuccessBody<R>>}
+ * @example const notepad = await unwrap(api.notepads[':id'].$get({ param: { id: '1' }, query: {} }));
+ */
+export async function unwrap<R extends ClientResponse<unknown>>(response: R | Promise<R>): Promise<SuccessBody<Awaited<R>>> {
+  const res = await response;
+  const body: unknown = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new ApiError(res.status, body);
+  }
+  return body as SuccessBody<Awaited<R>>;
+}
+
+export type RetryOptions = {
+  retries?: number; // Retries after the first attempt
+  baseDelayMs?: number; // Wait before the first retry, doubled for each retry after it
+  maxDelayMs?: number; // Longest wait, a Retry-After beyond it is not waited for
+  retryOn?: Array<number>; // Statuses worth another try
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Reads Retry-After in seconds or as an HTTP date, null when it is missing
+const retryAfterMs = (response: Response): number | null => {
+  const header = response.headers.get('Retry-After');
+  if (header === null) return null;
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+/**
+ * Sends a request again when it was rate limited, the API was unavailable or the network failed.
+ * Waits as long as Retry-After asks, otherwise backs off exponentially with jitter.
+ * Only wrap requests that are safe to repeat: a POST that timed out may already have been applied.
+ * @param {() => Promise<R>} send - Sends the request, called once per attempt
+ * @param {RetryOptions} [options]
+ * @returns {Promise<R>} - The last response, which may still be an error
+ * @example const res = await withRetry(() => api.search.$get({ query: { q: 'todo' } }));
+ */
+export async function withRetry<R extends Response>(send: () => Promise<R>, options: RetryOptions = {}): Promise<R> {
+  const { retries = 3, baseDelayMs = 500, maxDelayMs = 30_000, retryOn = [429, 502, 503, 504] } = options;
+  const backoff = (attempt: number) => Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+
+  for (let attempt = 0; ; attempt++) {
+    let response: R;
+    try {
+      response = await send();
+    } catch (error) {
+      // fetch rejects with a TypeError when the network fails, anything else (e.g. an abort) is passed on
+      if (attempt >= retries || !(error instanceof TypeError)) throw error;
+      await sleep(backoff(attempt));
+      continue;
+    }
+
+    if (attempt >= retries || !retryOn.includes(response.status)) {
+      return response;
+    }
+
+    const delay = retryAfterMs(response) ?? backoff(attempt);
+    if (delay > maxDelayMs) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+}
+
+// Reads the error code of a response without using up its body
+const errorCode = async (response: Response): Promise<unknown> => {
+  const body = await response.clone().json().catch(() => null);
+  return typeof body === 'object' && body !== null ? body.code : undefined;
+};
+
+/**
+ * Creates a typed client for the API. It signs requests with the stored access token,
+ * refreshes it once when the API answers token_expired and retries the request,
+ * stores the tokens handed out by login, refresh and password changes, and forgets them on logout.
+ * @param {string} baseUrl - Where the API runs, e.g. https://api.example.com
+ * @param {ClientOptions} [options]
+ * @returns {ApiClient}
+ * @example
+ * const api = createClient('http://localhost:10000');
+ * await unwrap(api.auth.login.$post({ json: { email, password } }));
+ * const { data, pagination } = await unwrap(api.user.notepads.$get({ query: { limit: 20 } }));
+ */
+export function createClient(baseUrl: string, options: ClientOptions = {}): ApiClient {
+  const tokens = options.tokens ?? memoryTokenStore();
+  const baseFetch = options.fetch ?? ((input, init) => fetch(input, init));
+  const basePath = new URL(baseUrl).pathname.replace(/\/$/, '');
+
+  // Used for refreshing, so a failed refresh does not try to refresh again
+  const plain = hc<AppType>(baseUrl, { fetch: baseFetch, headers: options.headers });
+
+  let refreshing: Promise<boolean> | null = null;
+
+  // Gets a new access token, calls that fail at the same time share one refresh
+  const refresh = (expired: Tokens): Promise<boolean> => {
+    const current = tokens.get();
+    if (!current) return Promise.resolve(false);
+    if (current.token !== expired.token) return Promise.resolve(true); // Already refreshed by another call
+
+    refreshing ??= (async () => {
+      try {
+        const response = await plain.auth.refresh.$post({ json: { refreshToken: current.refreshToken } });
+        if (!response.ok) {
+          if (response.status === 401) tokens.set(null); // The session is over, the user has to log in again
+          return false;
+        }
+
+        const { token, refreshToken } = await response.json();
+        tokens.set({ token, refreshToken });
+        return true;
+      } catch {
+        return false;
+      } finally {
+        refreshing = null;
+      }
+    })();
+    return refreshing;
+  };
+
+  const send = (input: RequestInfo | URL, init: RequestInit | undefined, token: string | undefined) => {
+    const headers = new Headers(init?.headers);
+    if (token && !headers.has('Authorization')) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return baseFetch(input, { ...init, headers });
+  };
+
+  // Keeps the token store in step with the responses that start or end a session
+  const track = async (input: RequestInfo | URL, init: RequestInit | undefined, response: Response) => {
+    if (!response.ok) return;
+
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const path = url.pathname.slice(basePath.length);
+    const method = (init?.method ?? 'GET').toUpperCase();
+
+    if ((method === 'POST' && path === '/auth/logout') || (method === 'DELETE' && path === '/users/me')) {
+      tokens.set(null);
+      return;
+    }
+
+    if (method === 'POST' && (path === '/auth/login' || path === '/auth/refresh') || (method === 'PATCH' && path === '/users/me')) {
+      const body = await response.clone().json().catch(() => null);
+      if (typeof body?.token === 'string' && typeof body?.refreshToken === 'string') {
+        tokens.set({ token: body.token, refreshToken: body.refreshToken });
+      }
+    }
+  };
+
+  const authFetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const sentWith = tokens.get();
+    let response = await send(input, init, sentWith?.token);
+
+    if (response.status === 401 && sentWith && (await errorCode(response)) === 'token_expired' && (await refresh(sentWith))) {
+      await response.body?.cancel();
+      response = await send(input, init, tokens.get()?.token);
+    }
+
+    await track(input, init, response);
+    return response;
+  };
+
+  return hc<AppType>(baseUrl, { fetch: authFetch, headers: options.headers });
+}
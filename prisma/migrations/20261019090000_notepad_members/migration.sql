@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "NotepadRole" AS ENUM ('viewer', 'editor');
+
+-- CreateTable
+CREATE TABLE "NotepadMember" (
+    "id" SERIAL NOT NULL,
+    "role" "NotepadRole" NOT NULL DEFAULT 'viewer',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "notepadId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+
+    CONSTRAINT "NotepadMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotepadMember_notepadId_userId_key" ON "NotepadMember"("notepadId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "NotepadMember" ADD CONSTRAINT "NotepadMember_notepadId_fkey" FOREIGN KEY ("notepadId") REFERENCES "Notepad"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotepadMember" ADD CONSTRAINT "NotepadMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
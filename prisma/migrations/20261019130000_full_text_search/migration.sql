@@ -0,0 +1,25 @@
+-- PostgreSQL has no Icelandic stemmer, so words are indexed as they are but without accents,
+-- which lets "glosur" match "glósur" and "thorf" match "þörf".
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+CREATE TEXT SEARCH CONFIGURATION "icelandic_unaccent" ( COPY = simple );
+ALTER TEXT SEARCH CONFIGURATION "icelandic_unaccent"
+  ALTER MAPPING FOR hword, hword_part, word WITH unaccent, simple;
+
+-- AlterTable
+ALTER TABLE "Notepad" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('icelandic_unaccent', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('icelandic_unaccent', coalesce("description", '')), 'B')
+) STORED;
+
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+  setweight(to_tsvector('icelandic_unaccent', coalesce("title", '')), 'A') ||
+  setweight(to_tsvector('icelandic_unaccent', coalesce("content", '')), 'B')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Notepad_searchVector_idx" ON "Notepad" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Note_searchVector_idx" ON "Note" USING GIN ("searchVector");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Notepad" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Notepad_deletedAt_idx" ON "Notepad"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Note_deletedAt_idx" ON "Note"("deletedAt");
@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "NoteFormat" AS ENUM ('plain', 'markdown');
+
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN "format" "NoteFormat" NOT NULL DEFAULT 'plain';
+
+-- AlterTable
+ALTER TABLE "NoteRevision" ADD COLUMN "format" "NoteFormat" NOT NULL DEFAULT 'plain';
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Notepad" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
+
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN "version" INTEGER NOT NULL DEFAULT 1;
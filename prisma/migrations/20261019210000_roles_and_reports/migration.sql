@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "UserRole" AS ENUM ('user', 'moderator', 'admin');
+
+-- CreateEnum
+CREATE TYPE "ReportStatus" AS ENUM ('open', 'resolved', 'dismissed');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "role" "UserRole" NOT NULL DEFAULT 'user',
+ADD COLUMN     "suspendedAt" TIMESTAMP(3),
+ADD COLUMN     "suspendedReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "NotepadReport" (
+    "id" SERIAL NOT NULL,
+    "reason" TEXT NOT NULL,
+    "details" TEXT,
+    "status" "ReportStatus" NOT NULL DEFAULT 'open',
+    "resolution" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "notepadId" INTEGER NOT NULL,
+    "reporterId" INTEGER,
+    "resolvedById" INTEGER,
+
+    CONSTRAINT "NotepadReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "NotepadReport_status_createdAt_idx" ON "NotepadReport"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "NotepadReport_notepadId_idx" ON "NotepadReport"("notepadId");
+
+-- A user can have only one open report per notepad, Prisma cannot express partial indexes
+CREATE UNIQUE INDEX "NotepadReport_one_open_per_reporter" ON "NotepadReport"("notepadId", "reporterId") WHERE "status" = 'open';
+
+-- AddForeignKey
+ALTER TABLE "NotepadReport" ADD CONSTRAINT "NotepadReport_notepadId_fkey" FOREIGN KEY ("notepadId") REFERENCES "Notepad"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotepadReport" ADD CONSTRAINT "NotepadReport_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "NotepadReport" ADD CONSTRAINT "NotepadReport_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "Note" ADD COLUMN     "pinned" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Existing notes keep the order they were listed in, most recently updated first
+UPDATE "Note" SET "position" = ranked."rank" * 1024
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "notepadId" ORDER BY "updatedAt" DESC, "id" DESC) AS "rank"
+    FROM "Note"
+) AS ranked
+WHERE "Note"."id" = ranked."id";
+
+-- CreateIndex
+CREATE INDEX "Note_notepadId_pinned_position_idx" ON "Note"("notepadId", "pinned", "position");
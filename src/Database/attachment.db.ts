@@ -0,0 +1,194 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { Prisma, PrismaClient } from '@prisma/client';
+import xss from 'xss';
+import { writeAudit } from './audit.db.js';
+import type { AuditContext } from './audit.db.js';
+import { storage } from '../storage/storage.js';
+
+const prisma = new PrismaClient();
+
+// Zod schema for an attachment as the API returns it, where the file is stored is not shown
+export const AttachmentSchema = z.object({
+  id: z.number(),
+  fileName: z.string(),
+  contentType: z.string(),
+  size: z.number(),
+  noteId: z.number(),
+  uploadedById: z.number().nullable(),
+  createdAt: z.date(),
+});
+
+// Type definitions
+type Attachment = z.infer<typeof AttachmentSchema>;
+type StoredAttachment = Attachment & { storageKey: string };
+
+type AttachmentUpload = {
+  fileName: string;
+  contentType: string; // Normalized and checked against the allow-list
+  data: Uint8Array;
+};
+
+const attachmentFields = {
+  id: true,
+  fileName: true,
+  contentType: true,
+  size: true,
+  noteId: true,
+  uploadedById: true,
+  createdAt: true,
+};
+
+// Keeps the last part of a path and drops control characters, some browsers send the full path of the file
+const cleanFileName = (fileName: string) => {
+  const name = fileName.split(/[/\\]/).pop()?.replace(/[\x00-\x1f\x7f]/g, '').trim() ?? '';
+  return xss(name.slice(0, 255)) || 'file';
+};
+
+/**
+ * Fetches the attachments of a note, oldest first
+ * @param {number} noteId - The note ID
+ * @returns {Promise<Array<Attachment>>}
+ */
+export async function getAttachments(noteId: number): Promise<Array<Attachment>> {
+  try {
+    return await prisma.attachment.findMany({
+      where: { noteId },
+      select: attachmentFields,
+      orderBy: { id: 'asc' },
+    });
+  } catch (error) {
+    console.error('Error fetching attachments:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Counts the attachments of a note
+ * @param {number} noteId - The note ID
+ * @returns {Promise<number>}
+ */
+export async function countAttachments(noteId: number): Promise<number> {
+  try {
+    return await prisma.attachment.count({ where: { noteId } });
+  } catch (error) {
+    console.error('Error counting attachments:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches an attachment along with where its file is stored
+ * @param {number} id - The attachment ID
+ * @returns {Promise<StoredAttachment | null>}
+ */
+export async function getAttachment(id: number): Promise<StoredAttachment | null> {
+  try {
+    return await prisma.attachment.findUnique({
+      where: { id },
+      select: { ...attachmentFields, storageKey: true },
+    });
+  } catch (error) {
+    console.error('Error fetching attachment:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Stores a file and attaches it to a note. The file is stored first, so an attachment never points to nothing.
+ * @param {number} noteId - The note ID
+ * @param {number} uploadedById - The user uploading it
+ * @param {AttachmentUpload} upload - The checked file
+ * @returns {Promise<Attachment>}
+ */
+export async function createAttachment(noteId: number, uploadedById: number, upload: AttachmentUpload): Promise<Attachment> {
+  const storageKey = randomUUID();
+
+  try {
+    await storage.put(storageKey, upload.data, upload.contentType);
+  } catch (error) {
+    console.error('Error storing attachment:', error);
+    throw new Error('Internal Server Error');
+  }
+
+  try {
+    return await prisma.attachment.create({
+      data: {
+        noteId,
+        uploadedById,
+        storageKey,
+        fileName: cleanFileName(upload.fileName),
+        contentType: upload.contentType,
+        size: upload.data.byteLength,
+      },
+      select: attachmentFields,
+    });
+  } catch (error) {
+    console.error('Error creating attachment:', error);
+    await removeStoredFiles([storageKey]);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Deletes an attachment and its file
+ * @param {number} id - The attachment ID
+ * @param {AuditContext} context - Who deleted it, for the audit log
+ * @returns {Promise<boolean>} - False if there is no such attachment
+ */
+export async function deleteAttachment(id: number, context: AuditContext): Promise<boolean> {
+  let storageKey: string | null;
+  try {
+    storageKey = await prisma.$transaction(async (tx) => {
+      const attachment = await tx.attachment.findUnique({ where: { id } });
+      if (!attachment) {
+        return null;
+      }
+
+      await tx.attachment.delete({ where: { id } });
+      await writeAudit(tx, context, {
+        action: 'attachment.deleted',
+        targetType: 'attachment',
+        targetId: id,
+        before: { fileName: attachment.fileName, size: attachment.size, noteId: attachment.noteId },
+      });
+      return attachment.storageKey;
+    });
+  } catch (error) {
+    console.error('Error deleting attachment:', error);
+    throw new Error('Internal Server Error');
+  }
+
+  if (storageKey === null) {
+    return false;
+  }
+
+  await removeStoredFiles([storageKey]);
+  return true;
+}
+
+/**
+ * Lists the stored files of the notes about to be deleted, their attachments go with them.
+ * Call it in the transaction that deletes the notes and pass the result to removeStoredFiles() once it commits.
+ * @param {Prisma.TransactionClient} tx - The transaction
+ * @param {Prisma.NoteWhereInput} notes - The notes being deleted
+ * @returns {Promise<Array<string>>} - The storage keys
+ */
+export async function storedFilesOf(tx: Prisma.TransactionClient, notes: Prisma.NoteWhereInput): Promise<Array<string>> {
+  const attachments = await tx.attachment.findMany({ where: { note: notes }, select: { storageKey: true } });
+  return attachments.map((attachment) => attachment.storageKey);
+}
+
+/**
+ * Removes stored files whose attachments are gone. A file that cannot be removed is logged and left behind,
+ * nothing points to it any more.
+ * @param {Array<string>} storageKeys - The files to remove
+ * @returns {Promise<void>}
+ */
+export async function removeStoredFiles(storageKeys: Array<string>): Promise<void> {
+  await Promise.all(
+    storageKeys.map((key) =>
+      storage.delete(key).catch((error) => console.error(`Error removing stored file ${key}:`, error))
+    )
+  );
+}
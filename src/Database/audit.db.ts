@@ -0,0 +1,210 @@
+import { z } from 'zod';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { config } from '../config.js';
+
+const prisma = new PrismaClient();
+
+// Everything that is written to the audit log
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.login_failed',
+  'user.created',
+  'user.deleted',
+  'user.suspended',
+  'user.unsuspended',
+  'user.role_changed',
+  'notepad.visibility_changed',
+  'notepad.deleted',
+  'notepad.purged',
+  'note.deleted',
+  'note.purged',
+  'attachment.deleted',
+  'member.removed',
+  'webhook.deleted',
+  'trash.expired',
+  'report.resolved',
+  'report.dismissed',
+] as const;
+
+export const AuditActionSchema = z.enum(AUDIT_ACTIONS);
+
+export const AuditTargetTypeSchema = z.enum(['user', 'notepad', 'note', 'webhook', 'trash', 'report', 'attachment']);
+
+// Zod schema for the query parameters of a user's own activity, newest first
+export const ActivityQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  before: z.coerce.number().int().positive().optional(), // Entries older than this ID, the next cursor of the last page
+  action: AuditActionSchema.optional(),
+});
+
+// Zod schema for the query parameters of the admin audit log
+export const AuditQuerySchema = ActivityQuerySchema.extend({
+  actorId: z.coerce.number().int().optional(),
+  targetType: AuditTargetTypeSchema.optional(),
+  targetId: z.string().max(100).optional(),
+  ip: z.string().max(100).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Type definitions
+type AuditAction = z.infer<typeof AuditActionSchema>;
+type AuditTargetType = z.infer<typeof AuditTargetTypeSchema>;
+type ActivityQuery = z.infer<typeof ActivityQuerySchema>;
+type AuditQuery = z.infer<typeof AuditQuerySchema>;
+
+// Who did something and from where, taken from the request
+export type AuditContext = {
+  actorId: number | null;
+  ip: string | null;
+  userAgent: string | null;
+};
+
+// What was done to what, before and after are short summaries, never whole notes
+export type AuditEntry = {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: number | string | null;
+  before?: Prisma.InputJsonObject | null;
+  after?: Prisma.InputJsonObject | null;
+};
+
+type AuditLog = Prisma.AuditLogGetPayload<object>;
+
+// Used for what the API does on its own, e.g. emptying the trash
+export const SYSTEM_CONTEXT: AuditContext = { actorId: null, ip: null, userAgent: null };
+
+/**
+ * Validates the query parameters of a user's activity
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<ActivityQuery>}
+ */
+export function validateActivityQuery(data: unknown) {
+  return ActivityQuerySchema.safeParse(data);
+}
+
+/**
+ * Validates the query parameters of the admin audit log
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<AuditQuery>}
+ */
+export function validateAuditQuery(data: unknown) {
+  return AuditQuerySchema.safeParse(data);
+}
+
+/**
+ * Writes an entry as part of a transaction, so the action and its record succeed or fail together
+ * @param {Prisma.TransactionClient} tx - The transaction
+ * @param {AuditContext} context - Who did it
+ * @param {AuditEntry} entry - What was done
+ * @returns {Promise<void>}
+ */
+export async function writeAudit(tx: Prisma.TransactionClient, context: AuditContext, entry: AuditEntry): Promise<void> {
+  await tx.auditLog.create({
+    data: {
+      ...context,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetId: entry.targetId === null ? null : String(entry.targetId),
+      before: entry.before ?? Prisma.DbNull,
+      after: entry.after ?? Prisma.DbNull,
+    },
+  });
+}
+
+/**
+ * Writes an entry on its own, for actions that do not change anything else, e.g. a login
+ * @param {AuditContext} context - Who did it
+ * @param {AuditEntry} entry - What was done
+ * @returns {Promise<void>}
+ */
+export async function recordAudit(context: AuditContext, entry: AuditEntry): Promise<void> {
+  try {
+    await writeAudit(prisma, context, entry);
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches a page of entries, newest first
+ * @param {Prisma.AuditLogWhereInput} where - The filter
+ * @param {ActivityQuery} query - The page to fetch
+ * @returns {Promise<{ data: Array<AuditLog>, next: number | null }>} - next is the cursor of the following page
+ */
+async function findEntries(where: Prisma.AuditLogWhereInput, query: ActivityQuery) {
+  const entries = await prisma.auditLog.findMany({
+    where: {
+      ...where,
+      action: query.action,
+      id: query.before === undefined ? undefined : { lt: query.before },
+    },
+    orderBy: { id: 'desc' },
+    take: query.limit + 1, // One extra to tell if there is another page
+  });
+
+  const data: Array<AuditLog> = entries.slice(0, query.limit);
+  return { data, next: entries.length > query.limit ? data[data.length - 1].id : null };
+}
+
+/**
+ * Fetches what a user has done and what was done to their account, e.g. failed logins
+ * @param {number} userId - The user ID
+ * @param {ActivityQuery} query - The validated query
+ * @returns {Promise<{ data: Array<AuditLog>, next: number | null }>}
+ */
+export async function getActivity(userId: number, query: ActivityQuery) {
+  try {
+    return await findEntries(
+      { OR: [{ actorId: userId }, { targetType: 'user', targetId: String(userId) }] },
+      query
+    );
+  } catch (error) {
+    console.error('Error fetching activity:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Searches the whole audit log
+ * @param {AuditQuery} query - The validated filters
+ * @returns {Promise<{ data: Array<AuditLog>, next: number | null }>}
+ */
+export async function queryAuditLog(query: AuditQuery) {
+  try {
+    return await findEntries(
+      {
+        actorId: query.actorId,
+        targetType: query.targetType,
+        targetId: query.targetId,
+        ip: query.ip,
+        createdAt: query.from || query.to ? { gte: query.from, lte: query.to } : undefined,
+      },
+      query
+    );
+  } catch (error) {
+    console.error('Error querying audit log:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Removes entries older than the retention period, nothing when it is 0
+ * @param {Date} [now=new Date()] - The current time
+ * @returns {Promise<number>} - How many entries were removed
+ */
+export async function purgeExpiredAuditLog(now: Date = new Date()): Promise<number> {
+  if (config.audit.retentionDays <= 0) {
+    return 0;
+  }
+
+  try {
+    const cutoff = new Date(now.getTime() - config.audit.retentionDays * 24 * 60 * 60 * 1000);
+    const { count } = await prisma.auditLog.deleteMany({ where: { createdAt: { lt: cutoff } } });
+    return count;
+  } catch (error) {
+    console.error('Error purging audit log:', error);
+    throw new Error('Internal Server Error');
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Raised by an update or delete when the row has changed since the version the client last saw
+ */
+export class VersionConflict extends Error {
+  constructor() {
+    super('Version conflict');
+    this.name = 'VersionConflict';
+  }
+}
+
+/**
+ * Builds the Prisma condition for the versions a client expects, nothing when any version will do
+ * @param {Array<number>} [versions] - Versions taken from If-Match
+ * @returns {object}
+ */
+export function versionWhere(versions?: Array<number>) {
+  return versions ? { version: { in: versions } } : {};
+}
@@ -0,0 +1,92 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Zod schema for export query parameters
+export const ExportQuerySchema = z.object({
+  format: z.enum(['markdown', 'json', 'html']).default('json'),
+});
+
+// Type definitions
+export type ExportedNote = {
+  id: number;
+  title: string;
+  content: string;
+  format: 'plain' | 'markdown';
+  pinned: boolean;
+  position: number;
+  tags: Array<string>;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+export type ExportedNotepad = {
+  id: number;
+  title: string;
+  description: string | null;
+  isPublic: boolean;
+  tags: Array<string>;
+  createdAt: Date;
+  updatedAt: Date;
+  notes: Array<ExportedNote>;
+};
+
+/**
+ * Validates export query parameters
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<{ format: 'markdown' | 'json' | 'html' }>}
+ */
+export function validateExportQuery(data: unknown) {
+  return ExportQuerySchema.safeParse(data);
+}
+
+/**
+ * Fetches a notepad with all of its notes for export, in the order they are listed in: pinned first, then by position.
+ * Values are returned as stored so the export can be imported again without changes.
+ * @param {number} id - The ID of the notepad
+ * @returns {Promise<ExportedNotepad | null>} - null if not found or in the trash
+ */
+export async function getNotepadForExport(id: number): Promise<ExportedNotepad | null> {
+  try {
+    const notepad = await prisma.notepad.findFirst({
+      where: { id, deletedAt: null },
+      include: {
+        tags: { select: { name: true } },
+        notes: {
+          where: { deletedAt: null },
+          include: { tags: { select: { name: true } } },
+          orderBy: [{ pinned: 'desc' }, { position: 'asc' }, { id: 'asc' }],
+        },
+      },
+    });
+
+    if (!notepad) {
+      return null;
+    }
+
+    return {
+      id: notepad.id,
+      title: notepad.title,
+      description: notepad.description,
+      isPublic: notepad.isPublic,
+      tags: notepad.tags.map((tag) => tag.name).sort(),
+      createdAt: notepad.createdAt,
+      updatedAt: notepad.updatedAt,
+      notes: notepad.notes.map((note) => ({
+        id: note.id,
+        title: note.title,
+        content: note.content,
+        format: note.format,
+        pinned: note.pinned,
+        position: note.position,
+        tags: note.tags.map((tag) => tag.name).sort(),
+        createdAt: note.createdAt,
+        updatedAt: note.updatedAt,
+      })),
+    };
+  } catch (error) {
+    console.error('Error fetching notepad for export:', error);
+    throw new Error('Internal Server Error');
+  }
+}
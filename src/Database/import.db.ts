@@ -0,0 +1,194 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { z } from 'zod';
+import xss from 'xss';
+import { validateNotepadCreation } from './notepad.db.js';
+import { validateNoteCreation, POSITION_GAP } from './notes.db.js';
+import { tagsInput } from './tag.db.js';
+import { recordRevision } from './revision.db.js';
+import type { ParsedNote, ParsedNotepad, ParsedUpload } from '../lib/import.js';
+
+const prisma = new PrismaClient();
+
+// Large archives create thousands of rows, well past the default interactive transaction timeout
+const IMPORT_TRANSACTION_TIMEOUT_MS = 120_000;
+
+// Type definitions
+type ImportReportItem = {
+  source: string;
+  type: 'notepad' | 'note';
+  status: 'imported' | 'skipped';
+  id?: number;
+  title: string;
+  reason?: string;
+};
+
+type ImportReport = {
+  notepads: number;
+  notes: number;
+  skipped: number;
+  items: Array<ImportReportItem>;
+};
+
+/**
+ * Joins the messages of a failed validation into a single reason for the report
+ * @param {z.ZodError} error - The validation error
+ * @returns {string}
+ */
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map((issue) => (issue.path.length ? `${issue.path.join('.')}: ${issue.message}` : issue.message)).join('; ');
+}
+
+/**
+ * Creates a notepad from an upload, or reports why it was skipped
+ * @returns {Promise<number | null>} - The ID of the new notepad, or null if it was skipped
+ */
+async function importNotepad(
+  tx: Prisma.TransactionClient,
+  notepad: ParsedNotepad & { title: string },
+  ownerId: number,
+  report: ImportReport
+): Promise<number | null> {
+  const validNotepad = validateNotepadCreation({
+    title: notepad.title,
+    description: notepad.description ?? undefined,
+    isPublic: false, // Imports are private until the owner publishes them
+    ownerId,
+    tags: notepad.tags,
+  });
+
+  if (!validNotepad.success) {
+    report.items.push({
+      source: notepad.source,
+      type: 'notepad',
+      status: 'skipped',
+      title: notepad.title,
+      reason: describeIssues(validNotepad.error),
+    });
+    return null;
+  }
+
+  const created = await tx.notepad.create({
+    data: {
+      title: xss(validNotepad.data.title),
+      description: validNotepad.data.description ? xss(validNotepad.data.description) : null,
+      isPublic: false,
+      ownerId,
+      tags: tagsInput(validNotepad.data.tags ?? []),
+      createdAt: notepad.createdAt,
+      updatedAt: notepad.updatedAt,
+    },
+  });
+
+  report.notepads += 1;
+  report.items.push({ source: notepad.source, type: 'notepad', status: 'imported', id: created.id, title: created.title });
+  return created.id;
+}
+
+/**
+ * Works out the position of the first of the notes imported into a notepad, the others follow POSITION_GAP apart.
+ * A new notepad starts at 0, in one that has notes already they go above them, as new notes do.
+ * @param {Prisma.TransactionClient} tx - The transaction
+ * @param {number} notepadId - The notepad
+ * @param {number} count - How many notes are imported into it
+ * @returns {Promise<number>}
+ */
+async function firstImportPosition(tx: Prisma.TransactionClient, notepadId: number, count: number): Promise<number> {
+  const { _min } = await tx.note.aggregate({ where: { notepadId }, _min: { position: true } });
+  return _min.position === null ? 0 : _min.position - count * POSITION_GAP;
+}
+
+/**
+ * Creates a note from an upload, or reports why it was skipped
+ * @returns {Promise<void>}
+ */
+async function importNote(
+  tx: Prisma.TransactionClient,
+  note: ParsedNote,
+  notepadId: number,
+  position: number,
+  authorId: number,
+  report: ImportReport
+): Promise<void> {
+  const validNote = validateNoteCreation({
+    title: note.title,
+    content: note.content,
+    format: note.format,
+    pinned: note.pinned,
+    notepadId,
+    tags: note.tags,
+  });
+
+  if (!validNote.success) {
+    report.items.push({ source: note.source, type: 'note', status: 'skipped', title: note.title, reason: describeIssues(validNote.error) });
+    return;
+  }
+
+  const created = await tx.note.create({
+    data: {
+      title: xss(validNote.data.title),
+      content: validNote.data.content,
+      format: validNote.data.format,
+      pinned: validNote.data.pinned,
+      position,
+      notepadId,
+      tags: tagsInput(validNote.data.tags ?? []),
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt ?? note.createdAt,
+    },
+  });
+
+  await recordRevision(tx, created.id, authorId);
+
+  report.notes += 1;
+  report.items.push({ source: note.source, type: 'note', status: 'imported', id: created.id, title: created.title });
+}
+
+/**
+ * Creates the notepads and notes of a parsed upload in a single transaction.
+ * Items that fail validation are skipped and listed in the report, everything else is imported.
+ * @param {ParsedUpload} upload - The parsed upload
+ * @param {number} ownerId - The user importing, who owns any new notepads
+ * @param {number} [targetNotepadId] - Existing notepad for notes that do not belong to a folder, a new one is created if not given
+ * @returns {Promise<ImportReport>}
+ */
+export async function importUpload(upload: ParsedUpload, ownerId: number, targetNotepadId?: number): Promise<ImportReport> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const report: ImportReport = {
+        notepads: 0,
+        notes: 0,
+        skipped: 0,
+        items: upload.skipped.map((file) => ({ ...file, type: 'note' as const, status: 'skipped' as const, title: file.source })),
+      };
+
+      for (const notepad of upload.notepads) {
+        if (notepad.notes.length === 0 && notepad.title === null) {
+          continue;
+        }
+
+        const notepadId = notepad.title === null && targetNotepadId !== undefined
+          ? targetNotepadId
+          : await importNotepad(tx, { ...notepad, title: notepad.title ?? upload.title }, ownerId, report);
+
+        if (notepadId === null) {
+          for (const note of notepad.notes) {
+            report.items.push({ source: note.source, type: 'note', status: 'skipped', title: note.title, reason: 'Its notepad was skipped' });
+          }
+          continue;
+        }
+
+        // Notes keep the order of the upload
+        const first = await firstImportPosition(tx, notepadId, notepad.notes.length);
+        for (const [index, note] of notepad.notes.entries()) {
+          await importNote(tx, note, notepadId, first + index * POSITION_GAP, ownerId, report);
+        }
+      }
+
+      report.skipped = report.items.filter((item) => item.status === 'skipped').length;
+      return report;
+    }, { timeout: IMPORT_TRANSACTION_TIMEOUT_MS });
+  } catch (error) {
+    console.error('Error importing notes:', error);
+    throw new Error('Internal Server Error');
+  }
+}
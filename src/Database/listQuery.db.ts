@@ -0,0 +1,264 @@
+import { z } from 'zod';
+
+// Largest page a client can ask for on list endpoints
+const MAX_LIMIT = 100;
+
+// position only exists on notes, see NoteListQuerySchema
+const SortFieldSchema = z.enum(['title', 'createdAt', 'updatedAt', 'position']);
+const SortOrderSchema = z.enum(['asc', 'desc']);
+
+// Contents of an opaque cursor: the sort it belongs to, the row it points at and which way to read
+const CursorSchema = z.object({
+  s: SortFieldSchema,
+  o: SortOrderSchema,
+  v: z.string(),
+  id: z.number().int(),
+  d: z.enum(['next', 'prev']),
+  p: z.boolean().optional(), // Whether the row is pinned, in lists that show pinned rows first
+});
+
+/**
+ * Builds the schema of the query parameters of a list endpoint
+ * @param {[F, ...Array<F>]} sortFields - The fields the list can be sorted by
+ * @param {F} defaultSort - The sort when none is given
+ * @returns {z.ZodEffects}
+ */
+function listQuerySchema<F extends SortField>(sortFields: [F, ...Array<F>], defaultSort: F) {
+  return z
+    .object({
+      limit: z.coerce.number().int().min(1).max(MAX_LIMIT, `Limit must be at most ${MAX_LIMIT}`).default(12),
+      page: z.coerce.number().int().min(1).default(1),
+      sort: z.enum(sortFields).default(defaultSort),
+      order: SortOrderSchema.optional(),
+      title: z.string().trim().min(1).max(200).optional(), // Title prefix, case insensitive
+      cursor: z.string().optional(),
+    })
+    .transform((query, ctx) => {
+      // Titles and positions read from the top by default, dates newest first
+      const order = query.order ?? (query.sort === 'title' || query.sort === 'position' ? 'asc' : 'desc');
+
+      if (query.cursor === undefined) {
+        return { ...query, order, cursor: undefined };
+      }
+
+      const cursor = decodeCursor(query.cursor);
+      if (!cursor || cursor.s !== query.sort || cursor.o !== order) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['cursor'],
+          message: 'Invalid cursor, cursors only work with the sort and order they were created with',
+        });
+        return z.NEVER;
+      }
+
+      return { ...query, order, cursor };
+    });
+}
+
+// Zod schema for the query parameters shared by list endpoints
+export const ListQuerySchema = listQuerySchema(['title', 'createdAt', 'updatedAt'], 'updatedAt');
+
+// Zod schema for the query parameters of note lists, which keep the order the notes were arranged in by default
+export const NoteListQuerySchema = listQuerySchema(['position', 'title', 'createdAt', 'updatedAt'], 'position');
+
+// Type definitions
+export type ListQuery = z.infer<typeof NoteListQuerySchema>; // Also fits the queries of ListQuerySchema
+type SortField = z.infer<typeof SortFieldSchema>;
+type SortOrder = z.infer<typeof SortOrderSchema>;
+type Cursor = z.infer<typeof CursorSchema>;
+
+// position and pinned are only read from notes
+type Sortable = { id: number; title: string; createdAt: Date; updatedAt: Date; position?: number; pinned?: boolean };
+
+type Bound<T> = { lt: T } | { gt: T };
+
+type OrderBy = Array<{
+  pinned?: SortOrder;
+  title?: SortOrder;
+  createdAt?: SortOrder;
+  updatedAt?: SortOrder;
+  position?: SortOrder;
+  id?: SortOrder;
+}>;
+
+// Where condition that works for both the Note and Notepad models
+type ListWhere = {
+  title?: { startsWith: string; mode: 'insensitive' };
+  OR?: Array<{
+    pinned?: boolean;
+    title?: string | Bound<string>;
+    createdAt?: Date | Bound<Date>;
+    updatedAt?: Date | Bound<Date>;
+    position?: number | Bound<number>;
+    id?: Bound<number>;
+  }>;
+};
+
+// Options of lists whose rows can be pinned
+type ListOptions = {
+  pinnedFirst?: boolean; // Pinned rows come before the others whatever the sort
+};
+
+/**
+ * Decodes a cursor from the query string
+ * @param {string} value - The opaque cursor
+ * @returns {Cursor | null} - null if the cursor is not one we made
+ */
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const parsed = CursorSchema.safeParse(JSON.parse(Buffer.from(value, 'base64url').toString('utf8')));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encodes a cursor that points at a row
+ * @param {ListQuery} query - The query the row was listed with
+ * @param {Sortable} row - The row, before sanitizing
+ * @param {'next' | 'prev'} direction - Whether the cursor reads the rows after or before it
+ * @returns {string}
+ */
+function encodeCursor(query: ListQuery, row: Sortable, direction: 'next' | 'prev'): string {
+  const value =
+    query.sort === 'title' ? row.title : query.sort === 'position' ? String(row.position ?? 0) : row[query.sort].toISOString();
+  const cursor: Cursor = { s: query.sort, o: query.order, v: value, id: row.id, d: direction, p: row.pinned };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Validates the query parameters of a list endpoint
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<ListQuery>}
+ */
+export function validateListQuery(data: unknown) {
+  return ListQuerySchema.safeParse(data);
+}
+
+/**
+ * Validates the query parameters of a note list
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<ListQuery>}
+ */
+export function validateNoteListQuery(data: unknown) {
+  return NoteListQuerySchema.safeParse(data);
+}
+
+/**
+ * Builds the order of a list, with the ID as a tie breaker so that cursors are stable
+ * @param {SortField} sort - The field to sort by
+ * @param {SortOrder} order - The sort direction
+ * @param {SortOrder | undefined} pinned - How to order by pinned first, undefined when the rows cannot be pinned
+ * @returns {OrderBy}
+ */
+function orderBy(sort: SortField, order: SortOrder, pinned: SortOrder | undefined): OrderBy {
+  const pinnedFirst: OrderBy = pinned ? [{ pinned }] : [];
+  switch (sort) {
+    case 'title':
+      return [...pinnedFirst, { title: order }, { id: order }];
+    case 'createdAt':
+      return [...pinnedFirst, { createdAt: order }, { id: order }];
+    case 'updatedAt':
+      return [...pinnedFirst, { updatedAt: order }, { id: order }];
+    case 'position':
+      return [...pinnedFirst, { position: order }, { id: order }];
+  }
+}
+
+/**
+ * Builds the Prisma arguments for one page of a list.
+ * `filter` holds the conditions that also apply when counting, `where` adds the position of the cursor.
+ * One row more than the limit is read to find out if there is another page.
+ * @param {ListQuery} query - The validated query
+ * @param {ListOptions} [options]
+ * @returns {{ filter: ListWhere, where: ListWhere, orderBy: OrderBy, skip: number, take: number }}
+ */
+export function listArgs(
+  query: ListQuery,
+  options: ListOptions = {}
+): { filter: ListWhere; where: ListWhere; orderBy: OrderBy; skip: number; take: number } {
+  const filter: ListWhere = query.title ? { title: { startsWith: query.title, mode: 'insensitive' } } : {};
+  const where: ListWhere = { ...filter };
+  const { cursor } = query;
+
+  if (!cursor) {
+    const pinned = options.pinnedFirst ? 'desc' : undefined;
+    return { filter, where, orderBy: orderBy(query.sort, query.order, pinned), skip: (query.page - 1) * query.limit, take: query.limit + 1 };
+  }
+
+  // Reading backwards flips the sort, the rows are put back in order by paginate()
+  const backwards = cursor.d === 'prev';
+  const order = backwards === (query.order === 'asc') ? 'desc' : 'asc';
+  const bound = <T>(value: T): Bound<T> => (order === 'asc' ? { gt: value } : { lt: value });
+
+  let after: NonNullable<ListWhere['OR']>;
+  switch (query.sort) {
+    case 'title':
+      after = [{ title: bound(cursor.v) }, { title: cursor.v, id: bound(cursor.id) }];
+      break;
+    case 'createdAt':
+      after = [{ createdAt: bound(new Date(cursor.v)) }, { createdAt: new Date(cursor.v), id: bound(cursor.id) }];
+      break;
+    case 'updatedAt':
+      after = [{ updatedAt: bound(new Date(cursor.v)) }, { updatedAt: new Date(cursor.v), id: bound(cursor.id) }];
+      break;
+    case 'position':
+      after = [{ position: bound(Number(cursor.v)) }, { position: Number(cursor.v), id: bound(cursor.id) }];
+      break;
+  }
+
+  if (!options.pinnedFirst) {
+    where.OR = after;
+    return { filter, where, orderBy: orderBy(query.sort, order, undefined), skip: 0, take: query.limit + 1 };
+  }
+
+  // The rows after the cursor are the rest of its group, then the whole other group when that one comes later:
+  // unpinned rows come after a pinned cursor when reading on, pinned rows before an unpinned one when reading back
+  const pinned = cursor.p ?? false;
+  const otherGroupAfter = backwards ? !pinned : pinned;
+  where.OR = [...after.map((condition) => ({ ...condition, pinned })), ...(otherGroupAfter ? [{ pinned: !pinned }] : [])];
+
+  return { filter, where, orderBy: orderBy(query.sort, order, backwards ? 'asc' : 'desc'), skip: 0, take: query.limit + 1 };
+}
+
+/**
+ * Trims the extra row read by listArgs() and works out the cursors for the pages before and after
+ * @param {Array<T>} rows - Rows read with listArgs()
+ * @param {ListQuery} query - The validated query
+ * @returns {{ rows: Array<T>, next: string | null, prev: string | null }}
+ */
+export function paginate<T extends Sortable>(
+  rows: Array<T>,
+  query: ListQuery
+): { rows: Array<T>; next: string | null; prev: string | null } {
+  const hasMore = rows.length > query.limit;
+  const page = rows.slice(0, query.limit);
+
+  if (query.cursor?.d === 'prev') {
+    page.reverse();
+  }
+
+  if (page.length === 0) {
+    return { rows: page, next: null, prev: null };
+  }
+
+  const first = page[0];
+  const last = page[page.length - 1];
+
+  if (!query.cursor) {
+    return {
+      rows: page,
+      next: hasMore ? encodeCursor(query, last, 'next') : null,
+      prev: query.page > 1 ? encodeCursor(query, first, 'prev') : null,
+    };
+  }
+
+  // The row the cursor pointed at is on the other side, so that side always has more
+  const forwards = query.cursor.d === 'next';
+  return {
+    rows: page,
+    next: forwards && !hasMore ? null : encodeCursor(query, last, 'next'),
+    prev: !forwards && !hasMore ? null : encodeCursor(query, first, 'prev'),
+  };
+}
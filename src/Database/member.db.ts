@@ -0,0 +1,277 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import xss from 'xss';
+import { tagNames } from './tag.db.js';
+import { writeAudit } from './audit.db.js';
+import type { AuditContext } from './audit.db.js';
+
+const prisma = new PrismaClient();
+
+// Roles a user can be given on someone else's notepad
+export const MemberRoleSchema = z.enum(['viewer', 'editor']);
+
+// Zod schema for inviting a member, by username or email
+export const MemberToInviteSchema = z
+  .object({
+    username: z.string().min(1, 'Username must be at least 1 character').optional(),
+    email: z.string().email('Invalid email address').optional(),
+    role: MemberRoleSchema.optional().default('viewer'),
+  })
+  .refine((data) => data.username || data.email, 'Either username or email is required');
+
+// Zod schema for changing the role of a member
+export const MemberToUpdateSchema = z.object({
+  role: MemberRoleSchema,
+});
+
+// Type definitions
+type MemberRole = z.infer<typeof MemberRoleSchema>;
+type MemberToInvite = z.infer<typeof MemberToInviteSchema>;
+export type NotepadRole = MemberRole | 'owner';
+
+type Member = {
+  userId: number;
+  username: string;
+  role: MemberRole;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+/**
+ * Maps a membership row with its user to the public member shape
+ */
+function toMember(member: {
+  userId: number;
+  role: MemberRole;
+  createdAt: Date;
+  updatedAt: Date;
+  user: { username: string };
+}): Member {
+  return {
+    userId: member.userId,
+    username: xss(member.user.username),
+    role: member.role,
+    createdAt: member.createdAt,
+    updatedAt: member.updatedAt,
+  };
+}
+
+/**
+ * Validates member invitation data
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<MemberToInvite>}
+ */
+export function validateMemberInvite(data: unknown) {
+  return MemberToInviteSchema.safeParse(data);
+}
+
+/**
+ * Validates member role update data
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ role: MemberRole }>}
+ */
+export function validateMemberUpdate(data: unknown) {
+  return MemberToUpdateSchema.safeParse(data);
+}
+
+/**
+ * Finds the role a user has on a notepad
+ * @param {number} notepadId - The ID of the notepad
+ * @param {number} userId - The ID of the user
+ * @returns {Promise<NotepadRole | null>} - 'owner', 'editor', 'viewer' or null if the user has no access
+ */
+export async function getNotepadRole(notepadId: number, userId: number): Promise<NotepadRole | null> {
+  try {
+    const notepad = await prisma.notepad.findUnique({
+      where: { id: notepadId },
+      select: {
+        ownerId: true,
+        members: { where: { userId }, select: { role: true } },
+      },
+    });
+
+    if (!notepad) {
+      return null;
+    }
+
+    if (notepad.ownerId === userId) {
+      return 'owner';
+    }
+
+    return notepad.members[0]?.role ?? null;
+  } catch (error) {
+    console.error('Error fetching notepad role:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches all members of a notepad
+ * @param {number} notepadId - The ID of the notepad
+ * @returns {Promise<Array<Member>>}
+ */
+export async function getMembers(notepadId: number): Promise<Array<Member>> {
+  try {
+    const members = await prisma.notepadMember.findMany({
+      where: { notepadId },
+      include: { user: { select: { username: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return members.map(toMember);
+  } catch (error) {
+    console.error('Error fetching members:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Finds the user an invitation is for
+ * @param {MemberToInvite} invite - Username or email of the user
+ * @returns {Promise<number | null>} - The ID of the user, or null if no such user exists
+ */
+export async function findInvitee(invite: MemberToInvite): Promise<number | null> {
+  try {
+    const user = await prisma.user.findFirst({
+      where: invite.username ? { username: invite.username } : { email: invite.email },
+      select: { id: true },
+    });
+
+    return user?.id ?? null;
+  } catch (error) {
+    console.error('Error finding invitee:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Adds a user to a notepad, or changes their role if they are already a member
+ * @param {number} notepadId - The ID of the notepad
+ * @param {number} userId - The user to add, see findInvitee()
+ * @param {MemberRole} role - The role to give them
+ * @returns {Promise<Member>}
+ */
+export async function inviteMember(notepadId: number, userId: number, role: MemberRole): Promise<Member> {
+  try {
+    const member = await prisma.notepadMember.upsert({
+      where: { notepadId_userId: { notepadId, userId } },
+      create: { notepadId, userId, role },
+      update: { role },
+      include: { user: { select: { username: true } } },
+    });
+
+    return toMember(member);
+  } catch (error) {
+    console.error('Error inviting member:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Changes the role of an existing member
+ * @param {number} notepadId - The ID of the notepad
+ * @param {number} userId - The ID of the member
+ * @param {MemberRole} role - The new role
+ * @returns {Promise<Member | null>} - The updated member, or null if the user is not a member
+ */
+export async function updateMemberRole(
+  notepadId: number,
+  userId: number,
+  role: MemberRole
+): Promise<Member | null> {
+  try {
+    const existing = await prisma.notepadMember.findUnique({
+      where: { notepadId_userId: { notepadId, userId } },
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    const member = await prisma.notepadMember.update({
+      where: { notepadId_userId: { notepadId, userId } },
+      data: { role },
+      include: { user: { select: { username: true } } },
+    });
+
+    return toMember(member);
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Removes a member from a notepad
+ * @param {number} notepadId - The ID of the notepad
+ * @param {number} userId - The ID of the member
+ * @param {AuditContext} context - Who removed them, for the audit log
+ * @returns {Promise<boolean>} - True if the user was a member
+ */
+export async function removeMember(notepadId: number, userId: number, context: AuditContext): Promise<boolean> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const member = await tx.notepadMember.findUnique({
+        where: { notepadId_userId: { notepadId, userId } },
+        select: { role: true },
+      });
+
+      if (!member) {
+        return false;
+      }
+
+      await tx.notepadMember.delete({ where: { notepadId_userId: { notepadId, userId } } });
+      await writeAudit(tx, context, {
+        action: 'member.removed',
+        targetType: 'notepad',
+        targetId: notepadId,
+        before: { userId, role: member.role },
+      });
+      return true;
+    });
+  } catch (error) {
+    console.error('Error removing member:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches notepads that have been shared with a user, with pagination
+ * @param {number} userId - The ID of the user
+ * @param {number} [limit=12] - Number of notepads per page
+ * @param {number} [page=1] - Page number
+ * @returns {Promise<{ notepads: Array<object>, total: number, page: number, limit: number }>}
+ */
+export async function getSharedNotepads(userId: number, limit: number = 12, page: number = 1) {
+  try {
+    const offset = (page - 1) * limit;
+
+    const memberships = await prisma.notepadMember.findMany({
+      where: { userId, notepad: { deletedAt: null } },
+      include: { notepad: { include: { tags: { select: { name: true } } } } },
+      skip: offset,
+      take: limit,
+      orderBy: { notepad: { updatedAt: 'desc' } },
+    });
+
+    const sanitizedNotepads = memberships.map(({ notepad, role }) => ({
+      ...notepad,
+      title: xss(notepad.title),
+      description: notepad.description ? xss(notepad.description) : null,
+      tags: tagNames(notepad.tags),
+      role,
+    }));
+
+    const total = await prisma.notepadMember.count({ where: { userId, notepad: { deletedAt: null } } });
+
+    return {
+      notepads: sanitizedNotepads,
+      total,
+      page,
+      limit,
+    };
+  } catch (error) {
+    console.error('Error fetching shared notepads:', error);
+    throw new Error('Internal Server Error');
+  }
+}
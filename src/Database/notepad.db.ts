@@ -1,9 +1,17 @@
 import { z } from 'zod';
 import { PrismaClient } from '@prisma/client';
 import xss from 'xss';
+import { TagsSchema, tagFilterWhere, tagsInput, tagNames } from './tag.db.js';
+import type { TagFilter } from './tag.db.js';
+import { listArgs, paginate } from './listQuery.db.js';
+import type { ListQuery } from './listQuery.db.js';
+import { VersionConflict, versionWhere } from './concurrency.db.js';
+import { writeAudit } from './audit.db.js';
+import type { AuditContext } from './audit.db.js';
+import { eventBus } from '../events/bus.js';
 
 // Zod schema for a notepad
-const NotepadSchema = z.object({
+export const NotepadSchema = z.object({
   id: z.number(),
   title: z
     .string()
@@ -11,13 +19,16 @@ const NotepadSchema = z.object({
     .max(1024, 'title must be at most 1024 letters'),
   description: z.string().nullable(),
   isPublic: z.boolean(),
+  version: z.number(),
   createdAt: z.date(),
   updatedAt: z.date(),
   ownerId: z.number(),
+  tags: z.array(z.string()),
+  deletedAt: z.date().nullable(),
 });
 
 // Zod schema for creating a notepad
-const NotepadToCreateSchema = z.object({
+export const NotepadToCreateSchema = z.object({
   title: z
     .string()
     .min(3, 'title must be at least three letters')
@@ -25,10 +36,11 @@ const NotepadToCreateSchema = z.object({
   description: z.string().optional(),
   isPublic: z.boolean().optional().default(false),
   ownerId: z.number(),
+  tags: TagsSchema.optional(),
 });
 
 // Zod schema for updating a notepad
-const NotepadToUpdateSchema = z.object({
+export const NotepadToUpdateSchema = z.object({
   title: z
     .string()
     .min(3, 'title must be at least three letters')
@@ -36,51 +48,65 @@ const NotepadToUpdateSchema = z.object({
     .optional(),
   description: z.string().optional(),
   isPublic: z.boolean().optional(),
+  tags: TagsSchema.optional(),
 });
 
+// Tags are loaded with every notepad and returned as a list of names
+const includeTags = { tags: { select: { name: true } } };
+
 // Type definitions
 type Notepad = z.infer<typeof NotepadSchema>;
 type NotepadToCreate = z.infer<typeof NotepadToCreateSchema>;
 type NotepadToUpdate = z.infer<typeof NotepadToUpdateSchema>;
 
+type NotepadPage = {
+  notepads: Array<Notepad>;
+  total: number;
+  page: number;
+  limit: number;
+  next: string | null;
+  prev: string | null;
+};
+
 const prisma = new PrismaClient();
 
 /**
- * Fetches all notepads with pagination.
- * @param {number} [limit=12] - The number of notepads to return per page.
- * @param {number} [page=1] - The page number to fetch.
+ * Fetches all notepads with sorting and pagination.
+ * @param {ListQuery} query - Sort, title prefix and page or cursor.
  * @param {number} [ownerId] - Optional owner ID to filter by
- * @returns {Promise<{ notepads: Array<Notepad>, total: number, page: number, limit: number }>}
+ * @param {TagFilter} [tagFilter] - Only return notepads with these tags
+ * @returns {Promise<NotepadPage>}
  */
-export async function getNotepads(
-  limit: number = 12,
-  page: number = 1,
-  ownerId?: number
-): Promise<{ notepads: Array<Notepad>; total: number; page: number; limit: number }> {
+export async function getNotepads(query: ListQuery, ownerId?: number, tagFilter?: TagFilter): Promise<NotepadPage> {
   try {
-    const offset = (page - 1) * limit;
-    const whereClause = ownerId ? { ownerId } : {};
-
-    const notepads = await prisma.notepad.findMany({
-      where: whereClause,
-      skip: offset,
-      take: limit,
-      orderBy: { updatedAt: 'desc' },
+    const whereClause = { deletedAt: null, ...(ownerId ? { ownerId } : {}), ...tagFilterWhere(tagFilter) };
+    const args = listArgs(query);
+
+    const rows = await prisma.notepad.findMany({
+      where: { ...whereClause, ...args.where },
+      include: includeTags,
+      skip: args.skip,
+      take: args.take,
+      orderBy: args.orderBy,
     });
+    const { rows: notepads, next, prev } = paginate(rows, query);
 
     const sanitizedNotepads = notepads.map((notepad) => ({
       ...notepad,
       title: xss(notepad.title),
       description: notepad.description ? xss(notepad.description) : null,
+      tags: tagNames(notepad.tags),
     }));
 
-    const total = await prisma.notepad.count({ where: whereClause });
+    const total = await prisma.notepad.count({ where: { ...whereClause, ...args.filter } });
 
     return {
       notepads: sanitizedNotepads,
       total,
-      page,
-      limit,
+      page: query.page,
+      limit: query.limit,
+      next,
+      prev,
     };
   } catch (error) {
     console.error('Error fetching notepads:', error);
@@ -89,38 +115,41 @@ export async function getNotepads(
 }
 
 /**
- * Fetches public notepads with pagination.
- * @param {number} [limit=12] - The number of notepads to return per page.
- * @param {number} [page=1] - The page number to fetch.
- * @returns {Promise<{ notepads: Array<Notepad>, total: number, page: number, limit: number }>}
+ * Fetches public notepads with sorting and pagination.
+ * @param {ListQuery} query - Sort, title prefix and page or cursor.
+ * @param {TagFilter} [tagFilter] - Only return notepads with these tags
+ * @returns {Promise<NotepadPage>}
  */
-export async function getPublicNotepads(
-  limit: number = 12,
-  page: number = 1
-): Promise<{ notepads: Array<Notepad>; total: number; page: number; limit: number }> {
+export async function getPublicNotepads(query: ListQuery, tagFilter?: TagFilter): Promise<NotepadPage> {
   try {
-    const offset = (page - 1) * limit;
-
-    const notepads = await prisma.notepad.findMany({
-      where: { isPublic: true },
-      skip: offset,
-      take: limit,
-      orderBy: { updatedAt: 'desc' },
+    const whereClause = { isPublic: true, deletedAt: null, ...tagFilterWhere(tagFilter) };
+    const args = listArgs(query);
+
+    const rows = await prisma.notepad.findMany({
+      where: { ...whereClause, ...args.where },
+      include: includeTags,
+      skip: args.skip,
+      take: args.take,
+      orderBy: args.orderBy,
     });
+    const { rows: notepads, next, prev } = paginate(rows, query);
 
     const sanitizedNotepads = notepads.map((notepad) => ({
       ...notepad,
       title: xss(notepad.title),
       description: notepad.description ? xss(notepad.description) : null,
+      tags: tagNames(notepad.tags),
     }));
 
-    const total = await prisma.notepad.count({ where: { isPublic: true } });
+    const total = await prisma.notepad.count({ where: { ...whereClause, ...args.filter } });
 
     return {
       notepads: sanitizedNotepads,
       total,
-      page,
-      limit,
+      page: query.page,
+      limit: query.limit,
+      next,
+      prev,
     };
   } catch (error) {
     console.error('Error fetching public notepads:', error);
@@ -131,12 +160,13 @@ export async function getPublicNotepads(
 /**
  * Fetches a single notepad by its ID.
  * @param {number} id - The ID of the notepad to fetch.
- * @returns {Promise<Notepad | null>} - The notepad object or null if not found.
+ * @returns {Promise<Notepad | null>} - The notepad object or null if not found or in the trash.
  */
 export async function getNotepad(id: number): Promise<Notepad | null> {
   try {
-    const notepad = await prisma.notepad.findUnique({
-      where: { id },
+    const notepad = await prisma.notepad.findFirst({
+      where: { id, deletedAt: null },
+      include: includeTags,
     });
 
     if (!notepad) {
@@ -147,6 +177,7 @@ export async function getNotepad(id: number): Promise<Notepad | null> {
       ...notepad,
       title: xss(notepad.title),
       description: notepad.description ? xss(notepad.description) : null,
+      tags: tagNames(notepad.tags),
     };
 
     return sanitizedNotepad;
@@ -186,13 +217,17 @@ export async function createNotepad(notepadData: NotepadToCreate): Promise<Notep
       description: notepadData.description ? xss(notepadData.description) : null,
       isPublic: notepadData.isPublic,
       ownerId: notepadData.ownerId,
+      tags: tagsInput(notepadData.tags ?? []),
     };
 
     const createdNotepad = await prisma.notepad.create({
       data: sanitizedData,
+      include: includeTags,
     });
 
-    return createdNotepad;
+    const notepad = { ...createdNotepad, tags: tagNames(createdNotepad.tags) };
+    eventBus.publish('notepad.created', notepad.id, notepad);
+    return notepad;
   } catch (error) {
     console.error('Error creating notepad:', error);
     throw new Error('Internal Server Error');
@@ -201,11 +236,20 @@ export async function createNotepad(notepadData: NotepadToCreate): Promise<Notep
 
 /**
  * Updates an existing notepad by its ID.
+ * The version check and the write are a single statement, so a concurrent change cannot slip in between.
  * @param {number} id - The ID of the notepad to update.
  * @param {NotepadToUpdate} updateData - The data to update.
+ * @param {AuditContext} context - Who made the change, visibility changes go to the audit log.
+ * @param {Array<number>} [versions] - Only update if the notepad is at one of these versions.
  * @returns {Promise<Notepad | null>} - The updated notepad object or null if not found.
+ * @throws {VersionConflict} - If the notepad is at another version.
  */
-export async function updateNotepad(id: number, updateData: NotepadToUpdate): Promise<Notepad | null> {
+export async function updateNotepad(
+  id: number,
+  updateData: NotepadToUpdate,
+  context: AuditContext,
+  versions?: Array<number>
+): Promise<Notepad | null> {
   try {
     const sanitizedData: Partial<{
       title: string;
@@ -221,45 +265,98 @@ export async function updateNotepad(id: number, updateData: NotepadToUpdate): Pr
       sanitizedData.isPublic = updateData.isPublic;
     }
 
-    const updatedNotepad = await prisma.notepad.update({
-      where: { id },
-      data: sanitizedData,
+    const result = await prisma.$transaction(async (tx) => {
+      // Needed to tell if this update changes the visibility, and if it is the one that publishes the notepad
+      const before = updateData.isPublic !== undefined
+        ? await tx.notepad.findUnique({ where: { id }, select: { isPublic: true } })
+        : null;
+
+      const { count } = await tx.notepad.updateMany({
+        where: { id, deletedAt: null, ...versionWhere(versions) },
+        data: { ...sanitizedData, version: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        if (await tx.notepad.count({ where: { id, deletedAt: null } })) throw new VersionConflict();
+        return null;
+      }
+
+      const notepad = await tx.notepad.update({
+        where: { id },
+        data: updateData.tags ? { tags: { set: [], ...tagsInput(updateData.tags) } } : {}, // Replaces all tags
+        include: includeTags,
+      });
+
+      const visibilityChanged = before !== null && before.isPublic !== notepad.isPublic;
+      if (visibilityChanged) {
+        await writeAudit(tx, context, {
+          action: 'notepad.visibility_changed',
+          targetType: 'notepad',
+          targetId: id,
+          before: { isPublic: before.isPublic },
+          after: { isPublic: notepad.isPublic, title: notepad.title },
+        });
+      }
+
+      return { notepad, published: visibilityChanged && notepad.isPublic };
     });
 
-    return updatedNotepad;
+    if (!result) {
+      return null;
+    }
+
+    const notepad = { ...result.notepad, tags: tagNames(result.notepad.tags) };
+    eventBus.publish('notepad.updated', notepad.id, notepad);
+    if (result.published) {
+      eventBus.publish('notepad.published', notepad.id, notepad);
+    }
+    return notepad;
   } catch (error) {
+    if (error instanceof VersionConflict) throw error;
     console.error('Error updating notepad:', error);
     throw new Error('Internal Server Error');
   }
 }
 
 /**
- * Deletes a notepad by its ID.
+ * Moves a notepad to the trash. Its notes stay as they are and come back when the notepad is restored.
  * @param {number} id - The ID of the notepad to delete.
- * @returns {Promise<Notepad | null>} - The deleted notepad object or null if not found.
+ * @param {AuditContext} context - Who deleted it, for the audit log.
+ * @param {Array<number>} [versions] - Only delete if the notepad is at one of these versions.
+ * @returns {Promise<Notepad | null>} - The deleted notepad object or null if not found or already in the trash.
+ * @throws {VersionConflict} - If the notepad is at another version.
  */
-export async function deleteNotepad(id: number): Promise<Notepad | null> {
+export async function deleteNotepad(id: number, context: AuditContext, versions?: Array<number>): Promise<Notepad | null> {
   try {
-    const notepad = await prisma.notepad.findUnique({
-      where: { id },
+    const deletedNotepad = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.notepad.updateMany({
+        where: { id, deletedAt: null, ...versionWhere(versions) },
+        data: { deletedAt: new Date(), version: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        if (await tx.notepad.count({ where: { id, deletedAt: null } })) throw new VersionConflict();
+        return null;
+      }
+
+      const notepad = await tx.notepad.findUniqueOrThrow({ where: { id }, include: includeTags });
+      await writeAudit(tx, context, {
+        action: 'notepad.deleted',
+        targetType: 'notepad',
+        targetId: id,
+        before: { title: notepad.title, isPublic: notepad.isPublic, ownerId: notepad.ownerId },
+      });
+      return notepad;
     });
 
-    if (!notepad) {
+    if (!deletedNotepad) {
       return null;
     }
 
-    // First delete all notes in the notepad
-    await prisma.note.deleteMany({
-      where: { notepadId: id },
-    });
-
-    // Then delete the notepad itself
-    const deletedNotepad = await prisma.notepad.delete({
-      where: { id },
-    });
-
-    return deletedNotepad;
+    eventBus.publish('notepad.deleted', deletedNotepad.id, { id: deletedNotepad.id });
+    return { ...deletedNotepad, tags: tagNames(deletedNotepad.tags) };
   } catch (error) {
+    if (error instanceof VersionConflict) throw error;
     console.error('Error deleting notepad:', error);
     throw new Error('Internal Server Error');
   }
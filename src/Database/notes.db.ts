@@ -1,72 +1,127 @@
 import { z } from 'zod';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import xss from 'xss';
+import { TagsSchema, tagFilterWhere, tagsInput, tagNames } from './tag.db.js';
+import type { TagFilter } from './tag.db.js';
+import { recordRevision, hasRevisions } from './revision.db.js';
+import { listArgs, paginate } from './listQuery.db.js';
+import { VersionConflict, versionWhere } from './concurrency.db.js';
+import { writeAudit } from './audit.db.js';
+import type { AuditContext } from './audit.db.js';
+import type { ListQuery } from './listQuery.db.js';
+import { eventBus } from '../events/bus.js';
 
 const prisma = new PrismaClient();
 
+// How the content of a note is written, see render/markdown.ts
+export const NoteFormatSchema = z.enum(['plain', 'markdown']);
+
 // Zod schema for a note
-const NoteSchema = z.object({
+export const NoteSchema = z.object({
   id: z.number(),
   title: z.string(),
   content: z.string(),
+  format: NoteFormatSchema,
+  version: z.number(),
+  position: z.number(),
+  pinned: z.boolean(),
   createdAt: z.date(),
   updatedAt: z.date(),
   notepadId: z.number(),
+  tags: z.array(z.string()),
+  deletedAt: z.date().nullable(),
 });
 
 // Zod schema for creating a note
-const NoteToCreateSchema = z.object({
+export const NoteToCreateSchema = z.object({
   title: z.string().min(1, 'Title must be at least 1 character'),
   content: z.string().min(1, 'Content must be at least 1 character'),
+  format: NoteFormatSchema.optional(),
+  pinned: z.boolean().optional(),
   notepadId: z.number(),
+  tags: TagsSchema.optional(),
 });
 
 // Zod schema for updating a note
-const NoteToUpdateSchema = z.object({
+export const NoteToUpdateSchema = z.object({
   title: z.string().min(1, 'Title must be at least 1 character').optional(),
   content: z.string().min(1, 'Content must be at least 1 character').optional(),
+  format: NoteFormatSchema.optional(),
+  pinned: z.boolean().optional(),
+  tags: TagsSchema.optional(),
+});
+
+// Zod schema for moving a note within its notepad, after the given note or to the top when null
+export const NoteReorderSchema = z.object({
+  after: z.number().int().nullable(),
 });
 
+// Zod schema for moving a note to another notepad
+export const NoteMoveSchema = NoteToCreateSchema.pick({ notepadId: true });
+
+// Space left between the positions of neighbouring notes, so a note can be put between them without renumbering
+export const POSITION_GAP = 1024;
+
+/**
+ * Raised by reorderNote() when the note to put the moved note after is no longer in the same notepad
+ */
+export class MissingNeighbour extends Error {
+  constructor() {
+    super('Missing neighbour');
+    this.name = 'MissingNeighbour';
+  }
+}
+
+// Tags are loaded with every note and returned as a list of names
+const includeTags = { tags: { select: { name: true } } };
+
 // Type definitions
 type Note = z.infer<typeof NoteSchema>;
+type NoteFormat = z.infer<typeof NoteFormatSchema>;
 type NoteToCreate = z.infer<typeof NoteToCreateSchema>;
 type NoteToUpdate = z.infer<typeof NoteToUpdateSchema>;
+type NoteRow = Prisma.NoteGetPayload<{ include: typeof includeTags }>;
 
 /**
- * Fetches all notes for a specific notepad with pagination
+ * Fetches all notes for a specific notepad with sorting and pagination, pinned notes first
  * @param {number} notepadId - The ID of the notepad
- * @param {number} [limit=10] - Number of notes per page
- * @param {number} [page=1] - Page number
- * @returns {Promise<{ notes: Array<Note>, total: number, page: number, limit: number }>}
+ * @param {ListQuery} query - Sort, title prefix and page or cursor
+ * @param {TagFilter} [tagFilter] - Only return notes with these tags
+ * @returns {Promise<{ notes: Array<Note>, total: number, page: number, limit: number, next: string | null, prev: string | null }>}
  */
 export async function getNotesByNotepad(
   notepadId: number,
-  limit: number = 12,
-  page: number = 1
-): Promise<{ notes: Array<Note>; total: number; page: number; limit: number }> {
+  query: ListQuery,
+  tagFilter?: TagFilter
+): Promise<{ notes: Array<Note>; total: number; page: number; limit: number; next: string | null; prev: string | null }> {
   try {
-    const offset = (page - 1) * limit;
+    const whereClause = { notepadId, deletedAt: null, ...tagFilterWhere(tagFilter) };
+    const args = listArgs(query, { pinnedFirst: true });
 
-    const notes = await prisma.note.findMany({
-      where: { notepadId },
-      skip: offset,
-      take: limit,
-      orderBy: { updatedAt: 'desc' },
+    const rows = await prisma.note.findMany({
+      where: { ...whereClause, ...args.where },
+      include: includeTags,
+      skip: args.skip,
+      take: args.take,
+      orderBy: args.orderBy,
     });
+    const { rows: notes, next, prev } = paginate(rows, query);
 
     const sanitizedNotes = notes.map((note) => ({
       ...note,
       title: xss(note.title),
-      content: xss(note.content),
+      tags: tagNames(note.tags),
     }));
 
-    const total = await prisma.note.count({ where: { notepadId } });
+    const total = await prisma.note.count({ where: { ...whereClause, ...args.filter } });
 
     return {
       notes: sanitizedNotes,
       total,
-      page,
-      limit,
+      page: query.page,
+      limit: query.limit,
+      next,
+      prev,
     };
   } catch (error) {
     console.error('Error fetching notes:', error);
@@ -77,12 +132,13 @@ export async function getNotesByNotepad(
 /**
  * Fetches a single note by its ID
  * @param {number} id - The ID of the note
- * @returns {Promise<Note | null>}
+ * @returns {Promise<Note | null>} - null if not found, or if the note or its notepad is in the trash
  */
 export async function getNoteById(id: number): Promise<Note | null> {
   try {
-    const note = await prisma.note.findUnique({
-      where: { id },
+    const note = await prisma.note.findFirst({
+      where: { id, deletedAt: null, notepad: { deletedAt: null } },
+      include: includeTags,
     });
 
     if (!note) {
@@ -92,7 +148,7 @@ export async function getNoteById(id: number): Promise<Note | null> {
     const sanitizedNote = {
       ...note,
       title: xss(note.title),
-      content: xss(note.content),
+      tags: tagNames(note.tags),
     };
 
     return sanitizedNote;
@@ -121,23 +177,64 @@ export function validateNoteUpdate(data: unknown) {
 }
 
 /**
- * Creates a new note
+ * Validates where a note is moved to within its notepad
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ after: number | null }>}
+ */
+export function validateNoteReorder(data: unknown) {
+  return NoteReorderSchema.safeParse(data);
+}
+
+/**
+ * Validates the notepad a note is moved to
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ notepadId: number }>}
+ */
+export function validateNoteMove(data: unknown) {
+  return NoteMoveSchema.safeParse(data);
+}
+
+/**
+ * Works out the position that puts a note at the top of a notepad, new notes are listed first as they used to be
+ * @param {Prisma.TransactionClient} tx - The transaction
+ * @param {number} notepadId - The notepad
+ * @returns {Promise<number>}
+ */
+async function topPosition(tx: Prisma.TransactionClient, notepadId: number): Promise<number> {
+  const { _min } = await tx.note.aggregate({ where: { notepadId }, _min: { position: true } });
+  return _min.position === null ? 0 : _min.position - POSITION_GAP;
+}
+
+/**
+ * Creates a new note and stores it as its first revision
  * @param {NoteToCreate} noteData - Note data to create
+ * @param {number} [authorId] - The user creating the note
  * @returns {Promise<Note>}
  */
-export async function createNote(noteData: NoteToCreate): Promise<Note> {
+export async function createNote(noteData: NoteToCreate, authorId?: number): Promise<Note> {
   try {
     const sanitizedData = {
       title: xss(noteData.title),
-      content: xss(noteData.content),
+      content: noteData.content, // Stored as written, only rendered output is sanitized
+      format: noteData.format,
+      pinned: noteData.pinned,
       notepadId: noteData.notepadId,
+      tags: tagsInput(noteData.tags ?? []),
     };
 
-    const createdNote = await prisma.note.create({
-      data: sanitizedData,
+    const createdNote = await prisma.$transaction(async (tx) => {
+      const note = await tx.note.create({
+        data: { ...sanitizedData, position: await topPosition(tx, noteData.notepadId) },
+        include: includeTags,
+      });
+
+      await recordRevision(tx, note.id, authorId ?? null);
+      return note;
     });
 
-    return createdNote;
+    const note = { ...createdNote, tags: tagNames(createdNote.tags) };
+    eventBus.publish('note.created', note.notepadId, note);
+    return note;
   } catch (error) {
     console.error('Error creating note:', error);
     throw new Error('Internal Server Error');
@@ -145,58 +242,249 @@ export async function createNote(noteData: NoteToCreate): Promise<Note> {
 }
 
 /**
- * Updates an existing note
+ * Updates an existing note and stores the result as a new revision, pinning or unpinning alone does not make one.
+ * The version check and the write are a single statement, so a concurrent change cannot slip in between.
  * @param {number} id - ID of note to update
  * @param {NoteToUpdate} updateData - Data to update
- * @returns {Promise<Note | null>}
+ * @param {number} [authorId] - The user making the change
+ * @param {Array<number>} [versions] - Only update if the note is at one of these versions
+ * @returns {Promise<Note | null>} - null if not found
+ * @throws {VersionConflict} - If the note is at another version
  */
 export async function updateNote(
   id: number,
-  updateData: NoteToUpdate
+  updateData: NoteToUpdate,
+  authorId?: number,
+  versions?: Array<number>
 ): Promise<Note | null> {
   try {
     const sanitizedData: Partial<{
       title: string;
       content: string;
+      format: NoteFormat;
+      pinned: boolean;
     }> = {};
 
     if (updateData.title) sanitizedData.title = xss(updateData.title);
-    if (updateData.content) sanitizedData.content = xss(updateData.content);
+    if (updateData.content) sanitizedData.content = updateData.content; // Stored as written
+    if (updateData.format) sanitizedData.format = updateData.format;
+    if (updateData.pinned !== undefined) sanitizedData.pinned = updateData.pinned;
+
+    const changesContent = Boolean(updateData.title || updateData.content || updateData.format || updateData.tags);
+
+    const updatedNote = await prisma.$transaction(async (tx) => {
+      // Notes written before revisions existed get their current state saved first, so it can be restored
+      if (changesContent && !(await hasRevisions(tx, id))) {
+        await recordRevision(tx, id, null);
+      }
+
+      const { count } = await tx.note.updateMany({
+        where: { id, deletedAt: null, ...versionWhere(versions) },
+        data: { ...sanitizedData, version: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        if (await tx.note.count({ where: { id, deletedAt: null } })) throw new VersionConflict();
+        return null;
+      }
 
-    const updatedNote = await prisma.note.update({
-      where: { id },
-      data: sanitizedData,
+      const note = await tx.note.update({
+        where: { id },
+        data: updateData.tags ? { tags: { set: [], ...tagsInput(updateData.tags) } } : {}, // Replaces all tags
+        include: includeTags,
+      });
+
+      if (changesContent) {
+        await recordRevision(tx, id, authorId ?? null);
+      }
+      return note;
     });
 
-    return updatedNote;
+    if (!updatedNote) {
+      return null;
+    }
+
+    const note = { ...updatedNote, tags: tagNames(updatedNote.tags) };
+    eventBus.publish('note.updated', note.notepadId, note);
+    return note;
   } catch (error) {
+    if (error instanceof VersionConflict) throw error;
     console.error('Error updating note:', error);
     throw new Error('Internal Server Error');
   }
 }
 
 /**
- * Deletes a note
+ * Moves a note to the trash
  * @param {number} id - ID of note to delete
- * @returns {Promise<Note | null>}
+ * @param {AuditContext} context - Who deleted it, for the audit log
+ * @param {Array<number>} [versions] - Only delete if the note is at one of these versions
+ * @returns {Promise<Note | null>} - null if not found or already in the trash
+ * @throws {VersionConflict} - If the note is at another version
  */
-export async function deleteNote(id: number): Promise<Note | null> {
+export async function deleteNote(id: number, context: AuditContext, versions?: Array<number>): Promise<Note | null> {
   try {
-    const note = await prisma.note.findUnique({
-      where: { id },
+    const deletedNote = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.note.updateMany({
+        where: { id, deletedAt: null, ...versionWhere(versions) },
+        data: { deletedAt: new Date(), version: { increment: 1 } },
+      });
+
+      if (count === 0) {
+        if (await tx.note.count({ where: { id, deletedAt: null } })) throw new VersionConflict();
+        return null;
+      }
+
+      const note = await tx.note.findUniqueOrThrow({ where: { id }, include: includeTags });
+      await writeAudit(tx, context, {
+        action: 'note.deleted',
+        targetType: 'note',
+        targetId: id,
+        before: { title: note.title, notepadId: note.notepadId },
+      });
+      return note;
     });
 
-    if (!note) {
+    if (!deletedNote) {
+      return null;
+    }
+
+    eventBus.publish('note.deleted', deletedNote.notepadId, { id: deletedNote.id, notepadId: deletedNote.notepadId });
+    return { ...deletedNote, tags: tagNames(deletedNote.tags) };
+  } catch (error) {
+    if (error instanceof VersionConflict) throw error;
+    console.error('Error deleting note:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Finds the position between a note and the one listed after it, renumbering the notepad when there is no room left
+ * @param {Prisma.TransactionClient} tx - The transaction
+ * @param {NoteRow} note - The note being moved
+ * @param {number | null} after - The note to put it after, null for the top
+ * @returns {Promise<number | null>} - null if the note to put it after is not in the notepad or in the trash
+ */
+async function positionAfter(tx: Prisma.TransactionClient, note: NoteRow, after: number | null): Promise<number | null> {
+  const others = { notepadId: note.notepadId, deletedAt: null, id: { not: note.id } };
+
+  for (;;) {
+    const previous = after === null ? null : await tx.note.findFirst({ where: { ...others, id: after } });
+    if (after !== null && !previous) return null;
+
+    const next = await tx.note.findFirst({
+      where: previous
+        ? { ...others, OR: [{ position: { gt: previous.position } }, { position: previous.position, id: { gt: previous.id } }] }
+        : others,
+      orderBy: [{ position: 'asc' }, { id: 'asc' }],
+    });
+
+    if (!previous) return next ? next.position - POSITION_GAP : note.position;
+    if (!next) return previous.position + POSITION_GAP;
+    if (next.position - previous.position > 1) return Math.floor((previous.position + next.position) / 2);
+
+    // The neighbours are next to each other, spread the whole notepad out again and look once more
+    await tx.$executeRaw`
+      UPDATE "Note" SET "position" = ranked."rank" * ${POSITION_GAP}
+      FROM (
+        SELECT "id", ROW_NUMBER() OVER (ORDER BY "position", "id") AS "rank"
+        FROM "Note"
+        WHERE "notepadId" = ${note.notepadId}
+      ) AS ranked
+      WHERE "Note"."id" = ranked."id"
+    `;
+  }
+}
+
+/**
+ * Moves a note within its notepad. Only the note is written unless the notepad has to be renumbered.
+ * The version goes up, but the update time stays as it is so that lists sorted by it do not change.
+ * @param {number} id - ID of the note to move
+ * @param {number | null} after - ID of the note to put it after, from the same notepad, null for the top
+ * @param {Array<number>} [versions] - Only move if the note is at one of these versions
+ * @returns {Promise<Note | null>} - null if not found or in the trash
+ * @throws {VersionConflict} - If the note is at another version
+ * @throws {MissingNeighbour} - If the note to put it after is no longer in the notepad
+ */
+export async function reorderNote(id: number, after: number | null, versions?: Array<number>): Promise<Note | null> {
+  try {
+    const movedNote = await prisma.$transaction(async (tx) => {
+      const note = await tx.note.findFirst({ where: { id, deletedAt: null }, include: includeTags });
+      if (!note) {
+        return null;
+      }
+      if (versions && !versions.includes(note.version)) {
+        throw new VersionConflict();
+      }
+
+      const position = await positionAfter(tx, note, after);
+      if (position === null) {
+        throw new MissingNeighbour();
+      }
+
+      const { count } = await tx.note.updateMany({
+        where: { id, deletedAt: null, ...versionWhere(versions) },
+        data: { position, updatedAt: note.updatedAt, version: { increment: 1 } },
+      });
+
+      if (count === 0) throw new VersionConflict();
+
+      return tx.note.findUniqueOrThrow({ where: { id }, include: includeTags });
+    });
+
+    if (!movedNote) {
       return null;
     }
 
-    const deletedNote = await prisma.note.delete({
-      where: { id },
+    const note = { ...movedNote, tags: tagNames(movedNote.tags) };
+    eventBus.publish('note.updated', note.notepadId, note);
+    return note;
+  } catch (error) {
+    if (error instanceof VersionConflict || error instanceof MissingNeighbour) throw error;
+    console.error('Error reordering note:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Moves a note to the top of another notepad, along with its revisions and attachments
+ * @param {number} id - ID of the note to move
+ * @param {number} notepadId - ID of the notepad to move it to
+ * @param {Array<number>} [versions] - Only move if the note is at one of these versions
+ * @returns {Promise<Note | null>} - null if not found or in the trash
+ * @throws {VersionConflict} - If the note is at another version
+ */
+export async function moveNote(id: number, notepadId: number, versions?: Array<number>): Promise<Note | null> {
+  try {
+    const moved = await prisma.$transaction(async (tx) => {
+      const from = await tx.note.findFirst({ where: { id, deletedAt: null }, select: { notepadId: true } });
+      if (!from) {
+        return null;
+      }
+
+      const { count } = await tx.note.updateMany({
+        where: { id, deletedAt: null, ...versionWhere(versions) },
+        data: { notepadId, position: await topPosition(tx, notepadId), version: { increment: 1 } },
+      });
+
+      if (count === 0) throw new VersionConflict();
+
+      const note = await tx.note.findUniqueOrThrow({ where: { id }, include: includeTags });
+      return { note, from: from.notepadId };
     });
 
-    return deletedNote;
+    if (!moved) {
+      return null;
+    }
+
+    const note = { ...moved.note, tags: tagNames(moved.note.tags) };
+    // Those following the old notepad only learn where the note went, the new one gets the note itself
+    eventBus.publish('note.moved', moved.from, { id: note.id, notepadId: note.notepadId, from: moved.from });
+    eventBus.publish('note.moved', note.notepadId, { ...note, from: moved.from });
+    return note;
   } catch (error) {
-    console.error('Error deleting note:', error);
+    if (error instanceof VersionConflict) throw error;
+    console.error('Error moving note:', error);
     throw new Error('Internal Server Error');
   }
 }
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PasswordSchema, updateUser } from './user.db.js';
+
+const prisma = new PrismaClient();
+
+// How long a reset link stays valid
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+// Zod schema for requesting a reset link
+export const ForgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+});
+
+// Zod schema for setting a new password with a reset token
+export const ResetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: PasswordSchema,
+});
+
+/**
+ * Hashes a reset token for storage and lookup
+ * @param {string} token - The reset token
+ * @returns {string}
+ */
+function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Validates a forgot password request
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ email: string }>}
+ */
+export function validateForgotPassword(data: unknown) {
+  return ForgotPasswordSchema.safeParse(data);
+}
+
+/**
+ * Validates a reset password request
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ token: string, password: string }>}
+ */
+export function validateResetPassword(data: unknown) {
+  return ResetPasswordSchema.safeParse(data);
+}
+
+/**
+ * Creates a reset token for the user with the given email. Earlier unused tokens stop working.
+ * @param {string} email - The email the user registered with
+ * @returns {Promise<{ token: string, email: string } | null>} - The plain token to send, or null if no user has that email
+ */
+export async function createPasswordResetToken(email: string): Promise<{ token: string; email: string } | null> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: { id: true, email: true },
+    });
+
+    if (!user) {
+      return null;
+    }
+
+    const token = randomBytes(32).toString('base64url');
+
+    await prisma.$transaction([
+      prisma.passwordResetToken.deleteMany({ where: { userId: user.id, usedAt: null } }),
+      prisma.passwordResetToken.create({
+        data: {
+          userId: user.id,
+          tokenHash: hashResetToken(token),
+          expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+        },
+      }),
+    ]);
+
+    return { token, email: user.email };
+  } catch (error) {
+    console.error('Error creating password reset token:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Sets a new password using a reset token. Each token can only be used once.
+ * @param {string} token - The reset token from the email
+ * @param {string} password - The new password
+ * @returns {Promise<number | null>} - The ID of the user whose password was changed, or null if the token is not valid
+ */
+export async function resetPassword(token: string, password: string): Promise<number | null> {
+  try {
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashResetToken(token) },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      return null;
+    }
+
+    // The usedAt condition makes sure two requests with the same token cannot both succeed
+    const { count } = await prisma.passwordResetToken.updateMany({
+      where: { id: resetToken.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    await updateUser(resetToken.userId, { password });
+
+    return resetToken.userId;
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    throw new Error('Internal Server Error');
+  }
+}
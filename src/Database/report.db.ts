@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import { Prisma, PrismaClient } from '@prisma/client';
+import xss from 'xss';
+import { writeAudit } from './audit.db.js';
+import type { AuditContext } from './audit.db.js';
+
+const prisma = new PrismaClient();
+
+// Why a notepad can be reported
+export const REPORT_REASONS = ['spam', 'abuse', 'illegal', 'other'] as const;
+
+export const ReportStatusSchema = z.enum(['open', 'resolved', 'dismissed']);
+
+// Zod schema for reporting a notepad
+export const ReportToCreateSchema = z.object({
+  reason: z.enum(REPORT_REASONS),
+  details: z.string().trim().max(2000, 'Details must be at most 2000 characters').optional(),
+});
+
+// Zod schema for closing a report, the note is kept on the report
+export const ReportResolutionSchema = z.object({
+  note: z.string().trim().max(1000, 'Note must be at most 1000 characters').optional(),
+});
+
+// Zod schema for the query parameters of the moderation queue, oldest first so reports are handled in order
+export const ReportQuerySchema = z.object({
+  status: ReportStatusSchema.default('open'),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  after: z.coerce.number().int().positive().optional(), // Reports newer than this ID, the next cursor of the last page
+});
+
+// Type definitions
+type ReportToCreate = z.infer<typeof ReportToCreateSchema>;
+type ReportQuery = z.infer<typeof ReportQuerySchema>;
+
+// The notepad and the people involved are sent along, so moderators can judge a report without looking them up
+const includeSummary = {
+  notepad: { select: { id: true, title: true, isPublic: true, ownerId: true, deletedAt: true } },
+  reporter: { select: { id: true, username: true } },
+  resolvedBy: { select: { id: true, username: true } },
+};
+
+type Report = Prisma.NotepadReportGetPayload<{ include: typeof includeSummary }>;
+
+/**
+ * Validates a new report
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<ReportToCreate>}
+ */
+export function validateReportCreation(data: unknown) {
+  return ReportToCreateSchema.safeParse(data);
+}
+
+/**
+ * Validates the closing of a report
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ note?: string }>}
+ */
+export function validateReportResolution(data: unknown) {
+  return ReportResolutionSchema.safeParse(data);
+}
+
+/**
+ * Validates the query parameters of the moderation queue
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<ReportQuery>}
+ */
+export function validateReportQuery(data: unknown) {
+  return ReportQuerySchema.safeParse(data);
+}
+
+/**
+ * Files a report about a notepad
+ * @param {number} notepadId - The reported notepad
+ * @param {number} reporterId - The user reporting it
+ * @param {ReportToCreate} data - The validated report
+ * @returns {Promise<Report | null>} - null if the user already has an open report on the notepad
+ */
+export async function createReport(notepadId: number, reporterId: number, data: ReportToCreate): Promise<Report | null> {
+  try {
+    const open = await prisma.notepadReport.count({ where: { notepadId, reporterId, status: 'open' } });
+    if (open > 0) {
+      return null;
+    }
+
+    return await prisma.notepadReport.create({
+      data: {
+        notepadId,
+        reporterId,
+        reason: data.reason,
+        details: data.details ? xss(data.details) : null,
+      },
+      include: includeSummary,
+    });
+  } catch (error) {
+    // Two reports sent at the same time, the partial unique index lets only one of them in
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return null;
+    }
+    console.error('Error creating report:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches a page of the moderation queue
+ * @param {ReportQuery} query - The validated query
+ * @returns {Promise<{ data: Array<Report>, next: number | null }>} - next is the cursor of the following page
+ */
+export async function getReports(query: ReportQuery) {
+  try {
+    const reports = await prisma.notepadReport.findMany({
+      where: {
+        status: query.status,
+        id: query.after === undefined ? undefined : { gt: query.after },
+      },
+      include: includeSummary,
+      orderBy: { id: 'asc' },
+      take: query.limit + 1, // One extra to tell if there is another page
+    });
+
+    const data: Array<Report> = reports.slice(0, query.limit);
+    return { data, next: reports.length > query.limit ? data[data.length - 1].id : null };
+  } catch (error) {
+    console.error('Error fetching reports:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Closes an open report, either because a moderator acted on it or because nothing was wrong
+ * @param {number} id - The report ID
+ * @param {'resolved' | 'dismissed'} status - How it was closed
+ * @param {string | undefined} note - What the moderator wrote
+ * @param {AuditContext} context - The moderator, for the audit log
+ * @returns {Promise<Report | null>} - null if there is no open report with this ID
+ */
+export async function closeReport(
+  id: number,
+  status: 'resolved' | 'dismissed',
+  note: string | undefined,
+  context: AuditContext
+): Promise<Report | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const resolution = note ? xss(note) : null;
+      const { count } = await tx.notepadReport.updateMany({
+        where: { id, status: 'open' },
+        data: { status, resolution, resolvedAt: new Date(), resolvedById: context.actorId },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const report = await tx.notepadReport.findUniqueOrThrow({ where: { id }, include: includeSummary });
+      await writeAudit(tx, context, {
+        action: status === 'resolved' ? 'report.resolved' : 'report.dismissed',
+        targetType: 'report',
+        targetId: id,
+        after: { notepadId: report.notepadId, reason: report.reason, resolution },
+      });
+      return report;
+    });
+  } catch (error) {
+    console.error('Error closing report:', error);
+    throw new Error('Internal Server Error');
+  }
+}
@@ -0,0 +1,198 @@
+import { z } from 'zod';
+import { Prisma, PrismaClient } from '@prisma/client';
+import xss from 'xss';
+import { config } from '../config.js';
+
+const prisma = new PrismaClient();
+
+// Zod schema for the query parameters of the revision list
+export const RevisionQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+// Zod schema for the revisions to compare, `to` defaults to the latest revision
+export const RevisionDiffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+// Type definitions
+type RevisionSummary = {
+  revision: number;
+  title: string;
+  tags: Array<string>;
+  createdAt: Date;
+  author: { id: number; username: string } | null;
+};
+
+type Revision = RevisionSummary & {
+  content: string;
+  format: 'plain' | 'markdown';
+};
+
+const revisionSelect = {
+  revision: true,
+  title: true,
+  tags: true,
+  createdAt: true,
+  author: { select: { id: true, username: true } },
+};
+
+/**
+ * Sanitizes a revision the same way notes are sanitized on read, content is returned as written
+ */
+function sanitizeRevision<T extends RevisionSummary>(revision: T): T {
+  return {
+    ...revision,
+    title: xss(revision.title),
+    tags: revision.tags.map((tag) => xss(tag)),
+    author: revision.author ? { ...revision.author, username: xss(revision.author.username) } : null,
+  };
+}
+
+/**
+ * Validates the query parameters of the revision list
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<{ limit: number, page: number }>}
+ */
+export function validateRevisionQuery(data: unknown) {
+  return RevisionQuerySchema.safeParse(data);
+}
+
+/**
+ * Validates revision diff query parameters
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<{ from: number, to?: number }>}
+ */
+export function validateRevisionDiffQuery(data: unknown) {
+  return RevisionDiffQuerySchema.safeParse(data);
+}
+
+/**
+ * Stores the current state of a note as its next revision and applies the retention policy.
+ * Must run in the same transaction as the write it records.
+ * @param {Prisma.TransactionClient} tx - The transaction the note was written in
+ * @param {number} noteId - The ID of the note
+ * @param {number | null} authorId - The user who made the change, null if unknown
+ * @returns {Promise<void>}
+ */
+export async function recordRevision(
+  tx: Prisma.TransactionClient,
+  noteId: number,
+  authorId: number | null
+): Promise<void> {
+  const note = await tx.note.findUniqueOrThrow({
+    where: { id: noteId },
+    select: { title: true, content: true, format: true, tags: { select: { name: true } } },
+  });
+
+  const last = await tx.noteRevision.findFirst({
+    where: { noteId },
+    orderBy: { revision: 'desc' },
+    select: { revision: true },
+  });
+
+  const revision = (last?.revision ?? 0) + 1;
+
+  await tx.noteRevision.create({
+    data: {
+      noteId,
+      revision,
+      title: note.title,
+      content: note.content,
+      format: note.format,
+      tags: note.tags.map((tag) => tag.name).sort(),
+      authorId,
+    },
+  });
+
+  // Drop revisions beyond the configured count, and those older than the configured age.
+  // The newest revision is always kept so the history never ends up empty.
+  const stale = await tx.noteRevision.findMany({
+    where: { noteId },
+    orderBy: { revision: 'desc' },
+    skip: Math.max(1, config.revisions.keep),
+    select: { id: true },
+  });
+
+  const ageCondition = config.revisions.maxAgeDays > 0
+    ? [{ createdAt: { lt: new Date(Date.now() - config.revisions.maxAgeDays * 24 * 60 * 60 * 1000) } }]
+    : [];
+
+  await tx.noteRevision.deleteMany({
+    where: {
+      noteId,
+      revision: { lt: revision },
+      OR: [{ id: { in: stale.map((row) => row.id) } }, ...ageCondition],
+    },
+  });
+}
+
+/**
+ * Checks if a note has any stored revisions
+ * @param {Prisma.TransactionClient} tx - The transaction to read in
+ * @param {number} noteId - The ID of the note
+ * @returns {Promise<boolean>}
+ */
+export async function hasRevisions(tx: Prisma.TransactionClient, noteId: number): Promise<boolean> {
+  return (await tx.noteRevision.count({ where: { noteId } })) > 0;
+}
+
+/**
+ * Fetches the revisions of a note with pagination, newest first and without content
+ * @param {number} noteId - The ID of the note
+ * @param {number} [limit=20] - Number of revisions per page
+ * @param {number} [page=1] - Page number
+ * @returns {Promise<{ revisions: Array<RevisionSummary>, total: number, page: number, limit: number }>}
+ */
+export async function getRevisions(
+  noteId: number,
+  limit: number = 20,
+  page: number = 1
+): Promise<{ revisions: Array<RevisionSummary>; total: number; page: number; limit: number }> {
+  try {
+    const offset = (page - 1) * limit;
+
+    const revisions = await prisma.noteRevision.findMany({
+      where: { noteId },
+      select: revisionSelect,
+      skip: offset,
+      take: limit,
+      orderBy: { revision: 'desc' },
+    });
+
+    const total = await prisma.noteRevision.count({ where: { noteId } });
+
+    return {
+      revisions: revisions.map(sanitizeRevision),
+      total,
+      page,
+      limit,
+    };
+  } catch (error) {
+    console.error('Error fetching revisions:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches a single revision of a note
+ * @param {number} noteId - The ID of the note
+ * @param {number} [revision] - The revision number, the latest revision if not given
+ * @returns {Promise<Revision | null>}
+ */
+export async function getRevision(noteId: number, revision?: number): Promise<Revision | null> {
+  try {
+    const found = await prisma.noteRevision.findFirst({
+      where: { noteId, ...(revision !== undefined ? { revision } : {}) },
+      select: { ...revisionSelect, content: true, format: true },
+      orderBy: { revision: 'desc' },
+    });
+
+    return found ? sanitizeRevision(found) : null;
+  } catch (error) {
+    console.error('Error fetching revision:', error);
+    throw new Error('Internal Server Error');
+  }
+}
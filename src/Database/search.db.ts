@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { Prisma, PrismaClient } from '@prisma/client';
+import xss from 'xss';
+
+const prisma = new PrismaClient();
+
+// Text search configuration created in the full_text_search migration
+const SEARCH_CONFIG = 'icelandic_unaccent';
+
+// Options for the highlighted snippet, <mark> survives the xss filter
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "';
+
+// Zod schema for search query parameters
+export const SearchQuerySchema = z.object({
+  q: z.string().trim().min(1, 'Search query is required').max(200, 'Search query must be at most 200 characters'),
+  notepadId: z.coerce.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+  page: z.coerce.number().int().min(1).default(1),
+});
+
+// Type definitions
+type SearchQuery = z.infer<typeof SearchQuerySchema>;
+
+type SearchResult = {
+  type: 'note' | 'notepad';
+  id: number;
+  notepadId: number;
+  title: string;
+  snippet: string;
+  rank: number;
+  updatedAt: Date;
+};
+
+/**
+ * Validates search query parameters
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<SearchQuery>}
+ */
+export function validateSearchQuery(data: unknown) {
+  return SearchQuerySchema.safeParse(data);
+}
+
+/**
+ * Builds the SQL condition for notepads a user may read: public ones, their own and those shared with them
+ * @param {number} [userId] - The ID of the caller, undefined for anonymous requests
+ * @returns {Prisma.Sql}
+ */
+function readableNotepads(userId?: number): Prisma.Sql {
+  if (userId === undefined) {
+    return Prisma.sql`p."deletedAt" IS NULL AND p."isPublic"`;
+  }
+
+  return Prisma.sql`p."deletedAt" IS NULL AND (
+    p."isPublic"
+    OR p."ownerId" = ${userId}
+    OR EXISTS (SELECT 1 FROM "NotepadMember" m WHERE m."notepadId" = p.id AND m."userId" = ${userId})
+  )`;
+}
+
+/**
+ * Searches note titles and content and notepad titles and descriptions, best matches first
+ * @param {SearchQuery} query - Search text, filters and pagination
+ * @param {number} [userId] - The ID of the caller, undefined for anonymous requests
+ * @returns {Promise<{ results: Array<SearchResult>, total: number, page: number, limit: number }>}
+ */
+export async function search(
+  query: SearchQuery,
+  userId?: number
+): Promise<{ results: Array<SearchResult>; total: number; page: number; limit: number }> {
+  try {
+    const offset = (query.page - 1) * query.limit;
+
+    const notepadFilters = [readableNotepads(userId)];
+    if (query.notepadId !== undefined) notepadFilters.push(Prisma.sql`p.id = ${query.notepadId}`);
+
+    const dateFilters: Array<Prisma.Sql> = [];
+    if (query.from) dateFilters.push(Prisma.sql`x."updatedAt" >= ${query.from}`);
+    if (query.to) dateFilters.push(Prisma.sql`x."updatedAt" <= ${query.to}`);
+    const dateCondition = dateFilters.length ? Prisma.sql`AND ${Prisma.join(dateFilters, ' AND ')}` : Prisma.empty;
+    const notepadCondition = Prisma.join(notepadFilters, ' AND ');
+
+    // Both kinds of results share the same columns so they can be ranked and paged together
+    const matches = Prisma.sql`
+      WITH q AS (SELECT websearch_to_tsquery(${SEARCH_CONFIG}::regconfig, ${query.q}) AS query)
+      SELECT 'note' AS type, x.id, x."notepadId", x.title,
+        ts_headline(${SEARCH_CONFIG}::regconfig, x.content, q.query, ${HEADLINE_OPTIONS}) AS snippet,
+        ts_rank(x."searchVector", q.query) AS rank, x."updatedAt"
+      FROM "Note" x JOIN "Notepad" p ON p.id = x."notepadId", q
+      WHERE x."searchVector" @@ q.query AND x."deletedAt" IS NULL AND ${notepadCondition} ${dateCondition}
+      UNION ALL
+      SELECT 'notepad' AS type, x.id, x.id AS "notepadId", x.title,
+        ts_headline(${SEARCH_CONFIG}::regconfig, coalesce(x.description, ''), q.query, ${HEADLINE_OPTIONS}) AS snippet,
+        ts_rank(x."searchVector", q.query) AS rank, x."updatedAt"
+      FROM "Notepad" x JOIN "Notepad" p ON p.id = x.id, q
+      WHERE x."searchVector" @@ q.query AND ${notepadCondition} ${dateCondition}
+    `;
+
+    const rows = await prisma.$queryRaw<Array<SearchResult>>`
+      ${matches}
+      ORDER BY rank DESC, "updatedAt" DESC, id ASC
+      LIMIT ${query.limit} OFFSET ${offset}
+    `;
+
+    const [{ count }] = await prisma.$queryRaw<Array<{ count: bigint }>>`
+      SELECT COUNT(*) AS count FROM (${matches}) AS matches
+    `;
+
+    const sanitizedResults = rows.map((row) => ({
+      ...row,
+      title: xss(row.title),
+      snippet: xss(row.snippet),
+      rank: Number(row.rank),
+    }));
+
+    return {
+      results: sanitizedResults,
+      total: Number(count),
+      page: query.page,
+      limit: query.limit,
+    };
+  } catch (error) {
+    console.error('Error searching:', error);
+    throw new Error('Internal Server Error');
+  }
+}
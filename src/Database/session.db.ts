@@ -0,0 +1,250 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import xss from 'xss';
+
+const prisma = new PrismaClient();
+
+// How long a session stays alive without being refreshed
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+// lastUsedAt is only written when it is older than this, so every request does not cause a write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Zod schema for exchanging a refresh token
+export const RefreshRequestSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required'),
+});
+
+// Type definitions
+type ClientInfo = {
+  userAgent?: string | null;
+  ip?: string | null;
+};
+
+type Session = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+};
+
+const sessionSelect = {
+  id: true,
+  userAgent: true,
+  ip: true,
+  createdAt: true,
+  lastUsedAt: true,
+  expiresAt: true,
+};
+
+/**
+ * Generates a new random refresh token
+ * @returns {string}
+ */
+function generateRefreshToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+/**
+ * Hashes a refresh token for storage and lookup
+ * @param {string} token - The refresh token
+ * @returns {string}
+ */
+function hashRefreshToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Validates a refresh request
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ refreshToken: string }>}
+ */
+export function validateRefreshRequest(data: unknown) {
+  return RefreshRequestSchema.safeParse(data);
+}
+
+/**
+ * Starts a new session for a user, e.g. on login
+ * @param {number} userId - The user ID
+ * @param {ClientInfo} client - User agent and IP of the device
+ * @returns {Promise<{ session: Session, refreshToken: string }>}
+ */
+export async function createSession(
+  userId: number,
+  client: ClientInfo
+): Promise<{ session: Session; refreshToken: string }> {
+  try {
+    const refreshToken = generateRefreshToken();
+
+    const session = await prisma.session.create({
+      data: {
+        userId,
+        userAgent: client.userAgent ?? null,
+        ip: client.ip ?? null,
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+        refreshTokens: { create: { tokenHash: hashRefreshToken(refreshToken) } },
+      },
+      select: sessionSelect,
+    });
+
+    return { session, refreshToken };
+  } catch (error) {
+    console.error('Error creating session:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Exchanges a refresh token for a new one. Each refresh token can only be used once,
+ * presenting an already used token revokes the whole session since it has likely been stolen.
+ * @param {string} refreshToken - The refresh token to exchange
+ * @param {ClientInfo} client - User agent and IP of the device
+ * @returns {Promise<{ session: Session, userId: number, refreshToken: string } | null>} - null if the token is not valid
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  client: ClientInfo
+): Promise<{ session: Session; userId: number; refreshToken: string } | null> {
+  try {
+    const existing = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashRefreshToken(refreshToken) },
+      include: { session: true },
+    });
+
+    if (!existing || existing.session.revokedAt || existing.session.expiresAt < new Date()) {
+      return null;
+    }
+
+    // Mark the token as used, the usedAt condition makes concurrent refreshes with the same token lose
+    const { count } = await prisma.refreshToken.updateMany({
+      where: { id: existing.id, usedAt: null },
+      data: { usedAt: new Date() },
+    });
+
+    if (count === 0) {
+      console.warn(`Refresh token reuse detected, revoking session ${existing.sessionId}`);
+      await revokeSession(existing.sessionId);
+      return null;
+    }
+
+    const nextRefreshToken = generateRefreshToken();
+
+    const session = await prisma.session.update({
+      where: { id: existing.sessionId },
+      data: {
+        lastUsedAt: new Date(),
+        expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+        userAgent: client.userAgent ?? existing.session.userAgent,
+        ip: client.ip ?? existing.session.ip,
+        refreshTokens: { create: { tokenHash: hashRefreshToken(nextRefreshToken) } },
+      },
+      select: sessionSelect,
+    });
+
+    return { session, userId: existing.session.userId, refreshToken: nextRefreshToken };
+  } catch (error) {
+    console.error('Error rotating refresh token:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Checks if a session is still active and records that it was used
+ * @param {string} sessionId - The session ID
+ * @param {number} userId - The user the session should belong to
+ * @returns {Promise<boolean>} - True if the session exists, belongs to the user and is neither revoked nor expired
+ */
+export async function isSessionActive(sessionId: string, userId: number): Promise<boolean> {
+  try {
+    const session = await prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, revokedAt: true, expiresAt: true, lastUsedAt: true },
+    });
+
+    if (!session || session.userId !== userId || session.revokedAt || session.expiresAt < new Date()) {
+      return false;
+    }
+
+    if (Date.now() - session.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await prisma.session.update({
+        where: { id: sessionId },
+        data: { lastUsedAt: new Date() },
+      });
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error checking session:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches the active sessions of a user, most recently used first
+ * @param {number} userId - The user ID
+ * @returns {Promise<Array<Session>>}
+ */
+export async function getActiveSessions(userId: number): Promise<Array<Session>> {
+  try {
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: sessionSelect,
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map((session) => ({
+      ...session,
+      userAgent: session.userAgent ? xss(session.userAgent) : null,
+    }));
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Revokes a session so its access and refresh tokens stop working
+ * @param {string} sessionId - The session ID
+ * @param {number} [userId] - Only revoke the session if it belongs to this user
+ * @returns {Promise<boolean>} - True if an active session was revoked
+ */
+export async function revokeSession(sessionId: string, userId?: number): Promise<boolean> {
+  try {
+    const { count } = await prisma.session.updateMany({
+      where: { id: sessionId, revokedAt: null, ...(userId !== undefined ? { userId } : {}) },
+      data: { revokedAt: new Date() },
+    });
+
+    return count > 0;
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Revokes every active session of a user
+ * @param {number} userId - The user ID
+ * @param {string} [exceptSessionId] - A session to keep, e.g. the one making the request
+ * @returns {Promise<number>} - The number of sessions revoked
+ */
+export async function revokeAllSessions(userId: number, exceptSessionId?: string): Promise<number> {
+  try {
+    const { count } = await prisma.session.updateMany({
+      where: {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+      },
+      data: { revokedAt: new Date() },
+    });
+
+    return count;
+  } catch (error) {
+    console.error('Error revoking sessions:', error);
+    throw new Error('Internal Server Error');
+  }
+}
@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import xss from 'xss';
+
+const prisma = new PrismaClient();
+
+// Tags are shared by name across notes and notepads and stored in lowercase
+const TagNameSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1, 'Tag must be at least 1 character')
+  .max(50, 'Tag must be at most 50 characters')
+  .regex(/^[\p{L}\p{N}][\p{L}\p{N}_-]*$/u, 'Tag can only contain letters, numbers, dashes and underscores');
+
+// Zod schema for the tags of a note or notepad
+export const TagsSchema = z
+  .array(TagNameSchema)
+  .max(20, 'At most 20 tags are allowed')
+  .transform((tags) => [...new Set(tags)]);
+
+// Zod schema for the tag filter on list endpoints, ?tag=exam&tag=chapter-3 or ?tag=exam,chapter-3
+const TagFilterSchema = z.object({
+  tags: z
+    .array(z.string())
+    .transform((values) => values.flatMap((value) => value.split(',')).filter((value) => value.trim() !== ''))
+    .pipe(z.array(TagNameSchema).max(20, 'At most 20 tags are allowed')),
+  match: z.enum(['any', 'all']).default('any'),
+});
+
+// Type definitions
+export type TagFilter = z.infer<typeof TagFilterSchema>;
+
+type TagUsage = {
+  name: string;
+  notes: number;
+  notepads: number;
+  total: number;
+};
+
+/**
+ * Validates the tag filter of a list endpoint
+ * @param {unknown} data - The tag query values and match mode
+ * @returns {z.SafeParseReturnType<TagFilter>}
+ */
+export function validateTagFilter(data: unknown) {
+  return TagFilterSchema.safeParse(data);
+}
+
+/**
+ * Builds a Prisma where condition for notes or notepads matching a tag filter
+ * @param {TagFilter} [filter] - The tags to match and whether any or all of them must be present
+ * @returns {object} - A condition that works for both the Note and Notepad models
+ */
+export function tagFilterWhere(filter?: TagFilter) {
+  if (!filter || filter.tags.length === 0) {
+    return {};
+  }
+
+  if (filter.match === 'all') {
+    return { AND: filter.tags.map((name) => ({ tags: { some: { name } } })) };
+  }
+
+  return { tags: { some: { name: { in: filter.tags } } } };
+}
+
+/**
+ * Builds the Prisma relation input that replaces the tags of a note or notepad, creating new tags as needed
+ * @param {Array<string>} names - Validated tag names
+ * @returns {object}
+ */
+export function tagsInput(names: Array<string>) {
+  return {
+    connectOrCreate: names.map((name) => ({ where: { name }, create: { name } })),
+  };
+}
+
+/**
+ * Maps the tag relation of a row to a list of sanitized tag names
+ * @param {Array<{ name: string }>} tags - Tags loaded with the row
+ * @returns {Array<string>}
+ */
+export function tagNames(tags: Array<{ name: string }>): Array<string> {
+  return tags.map((tag) => xss(tag.name)).sort();
+}
+
+/**
+ * Fetches the tags used in the notepads a user owns or that are shared with them, most used first
+ * @param {number} userId - The user ID
+ * @returns {Promise<Array<TagUsage>>}
+ */
+export async function getTagUsage(userId: number): Promise<Array<TagUsage>> {
+  try {
+    const accessibleNotepad = {
+      deletedAt: null,
+      OR: [{ ownerId: userId }, { members: { some: { userId } } }],
+    };
+    const accessibleNote = { deletedAt: null, notepad: accessibleNotepad };
+
+    const tags = await prisma.tag.findMany({
+      where: {
+        OR: [{ notes: { some: accessibleNote } }, { notepads: { some: accessibleNotepad } }],
+      },
+      select: {
+        name: true,
+        _count: {
+          select: {
+            notes: { where: accessibleNote },
+            notepads: { where: accessibleNotepad },
+          },
+        },
+      },
+    });
+
+    return tags
+      .map((tag) => ({
+        name: xss(tag.name),
+        notes: tag._count.notes,
+        notepads: tag._count.notepads,
+        total: tag._count.notes + tag._count.notepads,
+      }))
+      .sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    throw new Error('Internal Server Error');
+  }
+}
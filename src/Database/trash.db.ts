@@ -0,0 +1,303 @@
+import { z } from 'zod';
+import { PrismaClient } from '@prisma/client';
+import xss from 'xss';
+import { tagNames } from './tag.db.js';
+import { config } from '../config.js';
+import { SYSTEM_CONTEXT, writeAudit } from './audit.db.js';
+import type { AuditContext } from './audit.db.js';
+import { removeStoredFiles, storedFilesOf } from './attachment.db.js';
+
+const prisma = new PrismaClient();
+
+// The kinds of items that can be in the trash, used as the :type route parameter
+export const TrashItemTypeSchema = z.enum(['note', 'notepad']);
+
+// Tags are loaded with every trashed item and returned as a list of names
+const includeTags = { tags: { select: { name: true } } };
+
+// Type definitions
+type TrashItemType = z.infer<typeof TrashItemTypeSchema>;
+
+type TrashItem = {
+  type: TrashItemType;
+  id: number;
+  notepadId: number;
+  title: string;
+  tags: Array<string>;
+  deletedAt: Date;
+  purgeAt: Date;
+};
+
+type TrashedNote = {
+  id: number;
+  notepadId: number;
+  notepadDeleted: boolean;
+};
+
+type TrashedNotepad = {
+  id: number;
+  ownerId: number;
+};
+
+/**
+ * Works out when an item in the trash will be removed for good
+ * @param {Date} deletedAt - When the item was moved to the trash
+ * @returns {Date}
+ */
+function purgeDate(deletedAt: Date): Date {
+  return new Date(deletedAt.getTime() + config.trash.retentionDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Validates the type of a trash item
+ * @param {unknown} data - The :type route parameter
+ * @returns {z.SafeParseReturnType<TrashItemType>}
+ */
+export function validateTrashItemType(data: unknown) {
+  return TrashItemTypeSchema.safeParse(data);
+}
+
+/**
+ * Fetches the trash of a user: the notepads they own and the notes in notepads they can edit, newest first.
+ * Notes in a trashed notepad are not listed on their own, they come back with the notepad.
+ * @param {number} userId - The user ID
+ * @returns {Promise<Array<TrashItem>>}
+ */
+export async function getTrash(userId: number): Promise<Array<TrashItem>> {
+  try {
+    const notepads = await prisma.notepad.findMany({
+      where: { ownerId: userId, deletedAt: { not: null } },
+      include: includeTags,
+    });
+
+    const notes = await prisma.note.findMany({
+      where: {
+        deletedAt: { not: null },
+        notepad: {
+          deletedAt: null,
+          OR: [{ ownerId: userId }, { members: { some: { userId, role: 'editor' } } }],
+        },
+      },
+      include: includeTags,
+    });
+
+    const items: Array<TrashItem> = [
+      ...notepads.map((notepad) => ({
+        type: 'notepad' as const,
+        id: notepad.id,
+        notepadId: notepad.id,
+        title: xss(notepad.title),
+        tags: tagNames(notepad.tags),
+        deletedAt: notepad.deletedAt as Date,
+        purgeAt: purgeDate(notepad.deletedAt as Date),
+      })),
+      ...notes.map((note) => ({
+        type: 'note' as const,
+        id: note.id,
+        notepadId: note.notepadId,
+        title: xss(note.title),
+        tags: tagNames(note.tags),
+        deletedAt: note.deletedAt as Date,
+        purgeAt: purgeDate(note.deletedAt as Date),
+      })),
+    ];
+
+    return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches a note that is in the trash
+ * @param {number} id - The ID of the note
+ * @returns {Promise<TrashedNote | null>} - null if the note does not exist or is not in the trash
+ */
+export async function getTrashedNote(id: number): Promise<TrashedNote | null> {
+  try {
+    const note = await prisma.note.findFirst({
+      where: { id, deletedAt: { not: null } },
+      select: { id: true, notepadId: true, notepad: { select: { deletedAt: true } } },
+    });
+
+    if (!note) {
+      return null;
+    }
+
+    return { id: note.id, notepadId: note.notepadId, notepadDeleted: note.notepad.deletedAt !== null };
+  } catch (error) {
+    console.error('Error fetching trashed note:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches a notepad that is in the trash
+ * @param {number} id - The ID of the notepad
+ * @returns {Promise<TrashedNotepad | null>} - null if the notepad does not exist or is not in the trash
+ */
+export async function getTrashedNotepad(id: number): Promise<TrashedNotepad | null> {
+  try {
+    return await prisma.notepad.findFirst({
+      where: { id, deletedAt: { not: null } },
+      select: { id: true, ownerId: true },
+    });
+  } catch (error) {
+    console.error('Error fetching trashed notepad:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Takes a note out of the trash
+ * @param {number} id - The ID of the note
+ * @returns {Promise<boolean>} - True if the note was in the trash
+ */
+export async function restoreNote(id: number): Promise<boolean> {
+  try {
+    const { count } = await prisma.note.updateMany({
+      where: { id, deletedAt: { not: null } },
+      data: { deletedAt: null, version: { increment: 1 } },
+    });
+
+    return count > 0;
+  } catch (error) {
+    console.error('Error restoring note:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Takes a notepad out of the trash, along with the notes that were in it
+ * @param {number} id - The ID of the notepad
+ * @returns {Promise<boolean>} - True if the notepad was in the trash
+ */
+export async function restoreNotepad(id: number): Promise<boolean> {
+  try {
+    const { count } = await prisma.notepad.updateMany({
+      where: { id, deletedAt: { not: null } },
+      data: { deletedAt: null, version: { increment: 1 } },
+    });
+
+    return count > 0;
+  } catch (error) {
+    console.error('Error restoring notepad:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Permanently deletes a note that is in the trash, along with its revisions and attachments
+ * @param {number} id - The ID of the note
+ * @param {AuditContext} context - Who deleted it, for the audit log
+ * @returns {Promise<boolean>} - True if the note was in the trash
+ */
+export async function purgeNote(id: number, context: AuditContext): Promise<boolean> {
+  try {
+    const files = await prisma.$transaction(async (tx) => {
+      const note = await tx.note.findFirst({
+        where: { id, deletedAt: { not: null } },
+        select: { title: true, notepadId: true },
+      });
+
+      if (!note) {
+        return null;
+      }
+
+      const files = await storedFilesOf(tx, { id });
+      await tx.note.delete({ where: { id } });
+      await writeAudit(tx, context, { action: 'note.purged', targetType: 'note', targetId: id, before: note });
+      return files;
+    });
+
+    if (!files) {
+      return false;
+    }
+
+    await removeStoredFiles(files);
+    return true;
+  } catch (error) {
+    console.error('Error purging note:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Permanently deletes a notepad that is in the trash and every note in it, attachments included
+ * @param {number} id - The ID of the notepad
+ * @param {AuditContext} context - Who deleted it, for the audit log
+ * @returns {Promise<boolean>} - True if the notepad was in the trash
+ */
+export async function purgeNotepad(id: number, context: AuditContext): Promise<boolean> {
+  try {
+    const files = await prisma.$transaction(async (tx) => {
+      const notepad = await tx.notepad.findFirst({
+        where: { id, deletedAt: { not: null } },
+        select: { title: true, ownerId: true },
+      });
+
+      if (!notepad) {
+        return null;
+      }
+
+      const files = await storedFilesOf(tx, { notepadId: id });
+      const notes = await tx.note.deleteMany({ where: { notepadId: id } });
+      await tx.notepad.delete({ where: { id } });
+      await writeAudit(tx, context, {
+        action: 'notepad.purged',
+        targetType: 'notepad',
+        targetId: id,
+        before: { ...notepad, notes: notes.count },
+      });
+      return files;
+    });
+
+    if (!files) {
+      return false;
+    }
+
+    await removeStoredFiles(files);
+    return true;
+  } catch (error) {
+    console.error('Error purging notepad:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Permanently deletes everything that has been in the trash longer than the retention period
+ * @param {Date} [now=new Date()] - The current time
+ * @returns {Promise<{ notes: number, notepads: number }>} - How many notes and notepads were removed
+ */
+export async function purgeExpiredTrash(now: Date = new Date()): Promise<{ notes: number; notepads: number }> {
+  try {
+    const cutoff = new Date(now.getTime() - config.trash.retentionDays * 24 * 60 * 60 * 1000);
+    const expired = { deletedAt: { lt: cutoff } };
+
+    const { files, ...purged } = await prisma.$transaction(async (tx) => {
+      const files = await storedFilesOf(tx, { OR: [expired, { notepad: expired }] });
+      const notes = await tx.note.deleteMany({
+        where: { OR: [expired, { notepad: expired }] },
+      });
+      const notepads = await tx.notepad.deleteMany({ where: expired });
+
+      if (notes.count > 0 || notepads.count > 0) {
+        await writeAudit(tx, SYSTEM_CONTEXT, {
+          action: 'trash.expired',
+          targetType: 'trash',
+          targetId: null,
+          after: { notes: notes.count, notepads: notepads.count, retentionDays: config.trash.retentionDays },
+        });
+      }
+
+      return { notes: notes.count, notepads: notepads.count, files };
+    });
+
+    await removeStoredFiles(files);
+    return purged;
+  } catch (error) {
+    console.error('Error purging trash:', error);
+    throw new Error('Internal Server Error');
+  }
+}
@@ -1,7 +1,10 @@
 import { z } from 'zod';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
 import xss from 'xss';
 import bcrypt from 'bcryptjs';
+import { writeAudit } from './audit.db.js';
+import type { AuditContext } from './audit.db.js';
+import { removeStoredFiles, storedFilesOf } from './attachment.db.js';
 
 
 const prisma = new PrismaClient();
@@ -15,52 +18,104 @@ const passwordRequirements = {
   needsSpecialChar: true,
 };
 
+// Zod schema for a new password
+export const PasswordSchema = z.string()
+  .min(passwordRequirements.minLength, `Password must be at least ${passwordRequirements.minLength} characters`)
+  .max(passwordRequirements.maxLength, `Password must be at most ${passwordRequirements.maxLength} characters`)
+  .refine(val => passwordRequirements.needsNumber ? /\d/.test(val) : true, 'Password must contain at least one number')
+  .refine(val => passwordRequirements.needsUppercase ? /[A-Z]/.test(val) : true, 'Password must contain at least one uppercase letter')
+  .refine(val => passwordRequirements.needsSpecialChar ? /[^a-zA-Z0-9]/.test(val) : true, 'Password must contain at least one special character');
+
+// Site-wide roles, each can do everything the ones before it can
+export const USER_ROLES = ['user', 'moderator', 'admin'] as const;
+
+export const UserRoleSchema = z.enum(USER_ROLES);
+
 // Zod schema for a user
-const UserSchema = z.object({
+export const UserSchema = z.object({
   id: z.number(),
   username: z.string().min(3).max(50),
   email: z.string().email(),
   password: z.string().min(passwordRequirements.minLength),
+  emailVerifiedAt: z.date().nullable(),
+  role: UserRoleSchema,
+  suspendedAt: z.date().nullable(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 // Zod schema for creating a user
-const UserToCreateSchema = z.object({
+export const UserToCreateSchema = z.object({
   username: z.string()
     .min(3, 'Username must be at least 3 characters')
     .max(50, 'Username must be at most 50 characters')
     .refine(val => /^[a-zA-Z0-9_]+$/.test(val), 'Username can only contain letters, numbers and underscores'),
   email: z.string().email('Invalid email address'),
-  password: z.string()
-    .min(passwordRequirements.minLength, `Password must be at least ${passwordRequirements.minLength} characters`)
-    .max(passwordRequirements.maxLength, `Password must be at most ${passwordRequirements.maxLength} characters`)
-    .refine(val => passwordRequirements.needsNumber ? /\d/.test(val) : true, 'Password must contain at least one number')
-    .refine(val => passwordRequirements.needsUppercase ? /[A-Z]/.test(val) : true, 'Password must contain at least one uppercase letter')
-    .refine(val => passwordRequirements.needsSpecialChar ? /[^a-zA-Z0-9]/.test(val) : true, 'Password must contain at least one special character'),
+  password: PasswordSchema,
 });
 
 // Zod schema for updating a user
-const UserToUpdateSchema = z.object({
+export const UserToUpdateSchema = z.object({
   username: z.string()
     .min(3, 'Username must be at least 3 characters')
     .max(50, 'Username must be at most 50 characters')
     .refine(val => /^[a-zA-Z0-9_]+$/.test(val), 'Username can only contain letters, numbers and underscores')
     .optional(),
   email: z.string().email('Invalid email address').optional(),
-  password: z.string()
-    .min(passwordRequirements.minLength, `Password must be at least ${passwordRequirements.minLength} characters`)
-    .max(passwordRequirements.maxLength, `Password must be at most ${passwordRequirements.maxLength} characters`)
-    .refine(val => passwordRequirements.needsNumber ? /\d/.test(val) : true, 'Password must contain at least one number')
-    .refine(val => passwordRequirements.needsUppercase ? /[A-Z]/.test(val) : true, 'Password must contain at least one uppercase letter')
-    .refine(val => passwordRequirements.needsSpecialChar ? /[^a-zA-Z0-9]/.test(val) : true, 'Password must contain at least one special character')
-    .optional(),
+  password: PasswordSchema.optional(),
+  currentPassword: z.string().optional(),
+}).refine(
+  data => (data.email === undefined && data.password === undefined) || data.currentPassword,
+  { message: 'Current password is required to change email or password', path: ['currentPassword'] }
+);
+
+// Zod schema for deleting a user
+export const UserToDeleteSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+});
+
+// Zod schema for verifying an email with the token from the verification link
+export const EmailVerificationSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+// Zod schema for the query parameters of the admin user list
+export const UserQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  page: z.coerce.number().int().min(1).default(1),
+  q: z.string().trim().min(1).max(100).optional(), // Part of the username or email
+  role: UserRoleSchema.optional(),
+  suspended: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+});
+
+// Zod schema for suspending a user
+export const UserSuspensionSchema = z.object({
+  reason: z.string().trim().min(1, 'Reason is required').max(500, 'Reason must be at most 500 characters'),
+});
+
+// Zod schema for changing a user's role
+export const UserRoleChangeSchema = z.object({
+  role: UserRoleSchema,
 });
 
 // Type definitions
 type User = z.infer<typeof UserSchema>;
+type UserRole = z.infer<typeof UserRoleSchema>;
 type UserToCreate = z.infer<typeof UserToCreateSchema>;
 type UserToUpdate = z.infer<typeof UserToUpdateSchema>;
+type UserFilter = Omit<z.infer<typeof UserQuerySchema>, 'limit' | 'page'>;
+
+// The fields returned for a user, everything but the password
+const userFields = {
+  id: true,
+  username: true,
+  email: true,
+  emailVerifiedAt: true,
+  role: true,
+  suspendedAt: true,
+  createdAt: true,
+  updatedAt: true,
+};
 
 // Password hashing salt rounds
 const SALT_ROUNDS = 12;
@@ -88,25 +143,33 @@ async function comparePassword(password: string, hash: string): Promise<boolean>
  * Fetches all users with pagination
  * @param {number} [limit=10] - Number of users per page
  * @param {number} [page=1] - Page number
+ * @param {UserFilter} [filter] - Only users whose username or email contains q, with a role or (not) suspended
  * @returns {Promise<{ users: Array<Omit<User, 'password'>>, total: number, page: number, limit: number }>}
  */
 export async function getUsers(
   limit: number = 10,
-  page: number = 1
+  page: number = 1,
+  filter: UserFilter = {}
 ): Promise<{ users: Array<Omit<User, 'password'>>; total: number; page: number; limit: number }> {
   try {
     const offset = (page - 1) * limit;
 
+    const where: Prisma.UserWhereInput = {
+      OR: filter.q
+        ? [
+            { username: { contains: filter.q, mode: 'insensitive' } },
+            { email: { contains: filter.q, mode: 'insensitive' } },
+          ]
+        : undefined,
+      role: filter.role,
+      suspendedAt: filter.suspended === undefined ? undefined : filter.suspended ? { not: null } : null,
+    };
+
     const users = await prisma.user.findMany({
+      where,
       skip: offset,
       take: limit,
-      select: {
-        id: true,
-        username: true,
-        email: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+      select: userFields,
       orderBy: { createdAt: 'desc' },
     });
 
@@ -116,7 +179,7 @@ export async function getUsers(
       email: xss(user.email),
     }));
 
-    const total = await prisma.user.count();
+    const total = await prisma.user.count({ where });
 
     return {
       users: sanitizedUsers,
@@ -143,6 +206,9 @@ export async function getUserById(id: number): Promise<Omit<User, 'password'> |
         id: true,
         username: true,
         email: true,
+        emailVerifiedAt: true,
+        role: true,
+        suspendedAt: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -211,12 +277,58 @@ export function validateUserUpdate(data: unknown) {
   return UserToUpdateSchema.safeParse(data);
 }
 
+/**
+ * Validates user deletion data
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ currentPassword: string }>}
+ */
+export function validateUserDeletion(data: unknown) {
+  return UserToDeleteSchema.safeParse(data);
+}
+
+/**
+ * Validates the query parameters of the admin user list
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<z.infer<typeof UserQuerySchema>>}
+ */
+export function validateUserQuery(data: unknown) {
+  return UserQuerySchema.safeParse(data);
+}
+
+/**
+ * Validates user suspension data
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ reason: string }>}
+ */
+export function validateUserSuspension(data: unknown) {
+  return UserSuspensionSchema.safeParse(data);
+}
+
+/**
+ * Validates a role change
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ role: UserRole }>}
+ */
+export function validateUserRoleChange(data: unknown) {
+  return UserRoleChangeSchema.safeParse(data);
+}
+
+/**
+ * Validates email verification data
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<{ token: string }>}
+ */
+export function validateEmailVerification(data: unknown) {
+  return EmailVerificationSchema.safeParse(data);
+}
+
 /**
  * Creates a new user
  * @param {UserToCreate} userData - User data to create
+ * @param {AuditContext} context - Where the sign up came from, for the audit log
  * @returns {Promise<Omit<User, 'password'>>}
  */
-export async function createUser(userData: UserToCreate): Promise<Omit<User, 'password'>> {
+export async function createUser(userData: UserToCreate, context: AuditContext): Promise<Omit<User, 'password'>> {
   try {
     const hashedPassword = await hashPassword(userData.password);
     
@@ -226,18 +338,31 @@ export async function createUser(userData: UserToCreate): Promise<Omit<User, 'pa
       password: hashedPassword,
     };
 
-    const createdUser = await prisma.user.create({
-      data: sanitizedData,
-      select: {
-        id: true,
-        username: true,
-        email: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    return await prisma.$transaction(async (tx) => {
+      const createdUser = await tx.user.create({
+        data: sanitizedData,
+        select: {
+          id: true,
+          username: true,
+          email: true,
+          emailVerifiedAt: true,
+          role: true,
+          suspendedAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      // Someone signing up is anonymous until now, the entry is theirs
+      await writeAudit(tx, { ...context, actorId: context.actorId ?? createdUser.id }, {
+        action: 'user.created',
+        targetType: 'user',
+        targetId: createdUser.id,
+        after: { username: createdUser.username, email: createdUser.email },
+      });
+
+      return createdUser;
     });
-
-    return createdUser;
   } catch (error) {
     console.error('Error creating user:', error);
     throw new Error('Internal Server Error');
@@ -258,11 +383,17 @@ export async function updateUser(
     const updatePayload: {
       username?: string;
       email?: string;
+      emailVerifiedAt?: null;
       password?: string;
     } = {};
 
     if (updateData.username) updatePayload.username = xss(updateData.username);
-    if (updateData.email) updatePayload.email = xss(updateData.email);
+    if (updateData.email) {
+      const current = await prisma.user.findUnique({ where: { id }, select: { email: true } });
+      updatePayload.email = xss(updateData.email);
+      // A new address has to be verified again
+      if (current?.email !== updatePayload.email) updatePayload.emailVerifiedAt = null;
+    }
     if (updateData.password) {
       updatePayload.password = await hashPassword(updateData.password);
     }
@@ -274,6 +405,9 @@ export async function updateUser(
         id: true,
         username: true,
         email: true,
+        emailVerifiedAt: true,
+        role: true,
+        suspendedAt: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -289,33 +423,165 @@ export async function updateUser(
 /**
  * Deletes a user
  * @param {number} id - The user ID
+ * @param {AuditContext} context - Who deleted the account, for the audit log
  * @returns {Promise<Omit<User, 'password'> | null>}
  */
-export async function deleteUser(id: number): Promise<Omit<User, 'password'> | null> {
+export async function deleteUser(id: number, context: AuditContext): Promise<Omit<User, 'password'> | null> {
   try {
-    // First delete all user's notepads and notes
-    await prisma.note.deleteMany({
-      where: { notepad: { ownerId: id } },
+    const { files, ...deletedUser } = await prisma.$transaction(async (tx) => {
+      // First delete all user's notepads and notes
+      const files = await storedFilesOf(tx, { notepad: { ownerId: id } });
+      await tx.note.deleteMany({
+        where: { notepad: { ownerId: id } },
+      });
+
+      const notepads = await tx.notepad.deleteMany({
+        where: { ownerId: id },
+      });
+
+      const deletedUser = await tx.user.delete({
+        where: { id },
+        select: {
+          id: true,
+          username: true,
+          email: true,
+          emailVerifiedAt: true,
+          role: true,
+          suspendedAt: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
+
+      await writeAudit(tx, context, {
+        action: 'user.deleted',
+        targetType: 'user',
+        targetId: id,
+        before: { username: deletedUser.username, email: deletedUser.email, notepads: notepads.count },
+      });
+
+      return { ...deletedUser, files };
     });
 
-    await prisma.notepad.deleteMany({
-      where: { ownerId: id },
+    await removeStoredFiles(files);
+    return deletedUser;
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Suspends a user and signs them out everywhere, their notepads stay as they are
+ * @param {number} id - The user ID
+ * @param {string} reason - Why, kept on the account and in the audit log
+ * @param {AuditContext} context - Who suspended the account, for the audit log
+ * @returns {Promise<Omit<User, 'password'> | null>} - null if the user does not exist or is already suspended
+ */
+export async function suspendUser(id: number, reason: string, context: AuditContext): Promise<Omit<User, 'password'> | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const suspendedReason = xss(reason);
+      const { count } = await tx.user.updateMany({
+        where: { id, suspendedAt: null },
+        data: { suspendedAt: new Date(), suspendedReason },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      // Access tokens are tied to a session, so revoking the sessions ends them too
+      await tx.session.updateMany({
+        where: { userId: id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      });
+
+      const user = await tx.user.findUniqueOrThrow({ where: { id }, select: userFields });
+      await writeAudit(tx, context, {
+        action: 'user.suspended',
+        targetType: 'user',
+        targetId: id,
+        after: { reason: suspendedReason },
+      });
+
+      return { ...user, username: xss(user.username), email: xss(user.email) };
     });
+  } catch (error) {
+    console.error('Error suspending user:', error);
+    throw new Error('Internal Server Error');
+  }
+}
 
-    const deletedUser = await prisma.user.delete({
-      where: { id },
-      select: {
-        id: true,
-        username: true,
-        email: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+/**
+ * Lifts the suspension of a user, they can log in again
+ * @param {number} id - The user ID
+ * @param {AuditContext} context - Who lifted it, for the audit log
+ * @returns {Promise<Omit<User, 'password'> | null>} - null if the user does not exist or is not suspended
+ */
+export async function unsuspendUser(id: number, context: AuditContext): Promise<Omit<User, 'password'> | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const before = await tx.user.findFirst({
+        where: { id, suspendedAt: { not: null } },
+        select: { suspendedAt: true, suspendedReason: true },
+      });
+
+      if (!before) {
+        return null;
+      }
+
+      const user = await tx.user.update({
+        where: { id },
+        data: { suspendedAt: null, suspendedReason: null },
+        select: userFields,
+      });
+
+      await writeAudit(tx, context, {
+        action: 'user.unsuspended',
+        targetType: 'user',
+        targetId: id,
+        before: { suspendedAt: before.suspendedAt?.toISOString() ?? null, reason: before.suspendedReason },
+      });
+
+      return { ...user, username: xss(user.username), email: xss(user.email) };
     });
+  } catch (error) {
+    console.error('Error unsuspending user:', error);
+    throw new Error('Internal Server Error');
+  }
+}
 
-    return deletedUser;
+/**
+ * Changes the site-wide role of a user
+ * @param {number} id - The user ID
+ * @param {UserRole} role - The new role
+ * @param {AuditContext} context - Who changed it, for the audit log
+ * @returns {Promise<Omit<User, 'password'> | null>} - null if the user does not exist
+ */
+export async function setUserRole(id: number, role: UserRole, context: AuditContext): Promise<Omit<User, 'password'> | null> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const before = await tx.user.findUnique({ where: { id }, select: { role: true } });
+      if (!before) {
+        return null;
+      }
+
+      const user = await tx.user.update({ where: { id }, data: { role }, select: userFields });
+      if (before.role !== role) {
+        await writeAudit(tx, context, {
+          action: 'user.role_changed',
+          targetType: 'user',
+          targetId: id,
+          before: { role: before.role },
+          after: { role },
+        });
+      }
+
+      return { ...user, username: xss(user.username), email: xss(user.email) };
+    });
   } catch (error) {
-    console.error('Error deleting user:', error);
+    console.error('Error changing user role:', error);
     throw new Error('Internal Server Error');
   }
 }
@@ -348,6 +614,9 @@ export async function verifyCredentials(
       id: user.id,
       username: xss(user.username),
       email: xss(user.email),
+      emailVerifiedAt: user.emailVerifiedAt,
+      role: user.role,
+      suspendedAt: user.suspendedAt,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
@@ -359,6 +628,83 @@ export async function verifyCredentials(
   }
 }
 
+/**
+ * Checks a password against the one stored for a user, e.g. before a sensitive change
+ * @param {number} id - The user ID
+ * @param {string} password - The password to verify
+ * @returns {Promise<boolean>} - True if the user exists and the password matches
+ */
+export async function verifyPassword(id: number, password: string): Promise<boolean> {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { password: true },
+    });
+
+    if (!user) {
+      return false;
+    }
+
+    return comparePassword(password, user.password);
+  } catch (error) {
+    console.error('Error verifying password:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Marks the email of a user as verified, as long as it is still the address the link was sent to
+ * @param {number} id - The user ID
+ * @param {string} email - The email the verification link was sent to
+ * @returns {Promise<boolean>} - True if the email was verified
+ */
+export async function markEmailVerified(id: number, email: string): Promise<boolean> {
+  try {
+    const { count } = await prisma.user.updateMany({
+      where: { id, email },
+      data: { emailVerifiedAt: new Date() },
+    });
+
+    return count > 0;
+  } catch (error) {
+    console.error('Error verifying email:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Records that a verification email is about to be sent, unless one was sent too recently
+ * @param {number} id - The user ID
+ * @param {number} minIntervalMs - The minimum time between two verification emails
+ * @returns {Promise<number>} - 0 if the email may be sent, otherwise the seconds to wait
+ */
+export async function claimVerificationEmail(id: number, minIntervalMs: number): Promise<number> {
+  try {
+    const cutoff = new Date(Date.now() - minIntervalMs);
+
+    // Done in one conditional update so parallel requests cannot both send an email
+    const { count } = await prisma.user.updateMany({
+      where: { id, OR: [{ verificationSentAt: null }, { verificationSentAt: { lt: cutoff } }] },
+      data: { verificationSentAt: new Date() },
+    });
+
+    if (count > 0) {
+      return 0;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { verificationSentAt: true },
+    });
+
+    const sentAt = user?.verificationSentAt?.getTime() ?? Date.now();
+    return Math.max(1, Math.ceil((sentAt + minIntervalMs - Date.now()) / 1000));
+  } catch (error) {
+    console.error('Error claiming verification email:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
 /**
  * Checks if a username is available
  * @param {string} username - The username to check
@@ -0,0 +1,349 @@
+import { z } from 'zod';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { NOTEPAD_EVENT_TYPES } from '../events/bus.js';
+import type { NotepadEvent } from '../events/bus.js';
+import { writeAudit } from './audit.db.js';
+import type { AuditContext } from './audit.db.js';
+
+const prisma = new PrismaClient();
+
+// Event sent by the "send test event" action, it cannot be subscribed to
+export const TEST_EVENT = 'webhook.test';
+
+export const WebhookEventSchema = z.enum(NOTEPAD_EVENT_TYPES);
+
+// Zod schema for creating a webhook
+export const WebhookToCreateSchema = z.object({
+  url: z
+    .string()
+    .url('Invalid URL')
+    .max(2000)
+    .refine((url) => /^https?:\/\//i.test(url), 'URL must use http or https'),
+  events: z
+    .array(WebhookEventSchema)
+    .min(1, 'Choose at least one event')
+    .transform((events) => [...new Set(events)]),
+  notepadId: z.number().int().optional(), // Only events of this notepad
+  active: z.boolean().optional().default(true),
+});
+
+// Zod schema for updating a webhook
+export const WebhookToUpdateSchema = z.object({
+  url: WebhookToCreateSchema.shape.url.optional(),
+  events: WebhookToCreateSchema.shape.events.optional(),
+  active: z.boolean().optional(),
+});
+
+// Zod schema for the query parameters of the delivery log
+export const DeliveryQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.enum(['pending', 'succeeded', 'failed']).optional(),
+});
+
+// The secret is only returned when the webhook is created
+const publicFields = {
+  id: true,
+  url: true,
+  events: true,
+  active: true,
+  notepadId: true,
+  ownerId: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// Type definitions
+type WebhookToCreate = z.infer<typeof WebhookToCreateSchema>;
+type WebhookToUpdate = z.infer<typeof WebhookToUpdateSchema>;
+type DeliveryQuery = z.infer<typeof DeliveryQuerySchema>;
+
+type Webhook = {
+  id: number;
+  url: string;
+  events: Array<string>;
+  active: boolean;
+  notepadId: number | null;
+  ownerId: number;
+  createdAt: Date;
+  updatedAt: Date;
+};
+
+type WebhookDelivery = Prisma.WebhookDeliveryGetPayload<object>;
+
+// A delivery together with where it goes, as needed to send it
+export type DueDelivery = WebhookDelivery & { webhook: { url: string; secret: string } };
+
+/**
+ * Validates webhook creation data
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<WebhookToCreate>}
+ */
+export function validateWebhookCreation(data: unknown) {
+  return WebhookToCreateSchema.safeParse(data);
+}
+
+/**
+ * Validates webhook update data
+ * @param {unknown} data - Data to validate
+ * @returns {z.SafeParseReturnType<WebhookToUpdate>}
+ */
+export function validateWebhookUpdate(data: unknown) {
+  return WebhookToUpdateSchema.safeParse(data);
+}
+
+/**
+ * Validates the query parameters of the delivery log
+ * @param {unknown} data - Query parameters to validate
+ * @returns {z.SafeParseReturnType<DeliveryQuery>}
+ */
+export function validateDeliveryQuery(data: unknown) {
+  return DeliveryQuerySchema.safeParse(data);
+}
+
+/**
+ * Creates a webhook with a new signing secret
+ * @param {WebhookToCreate} data - The validated webhook
+ * @param {number} ownerId - The user the webhook belongs to
+ * @returns {Promise<Webhook & { secret: string }>} - The webhook, the only time its secret is returned
+ */
+export async function createWebhook(data: WebhookToCreate, ownerId: number): Promise<Webhook & { secret: string }> {
+  try {
+    const secret = `whsec_${randomBytes(24).toString('hex')}`;
+    const webhook = await prisma.webhook.create({
+      data: { ...data, secret, ownerId },
+      select: publicFields,
+    });
+
+    return { ...webhook, secret };
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches the webhooks of a user, newest first
+ * @param {number} ownerId - The user ID
+ * @returns {Promise<Array<Webhook>>}
+ */
+export async function getWebhooks(ownerId: number): Promise<Array<Webhook>> {
+  try {
+    return await prisma.webhook.findMany({
+      where: { ownerId },
+      orderBy: { createdAt: 'desc' },
+      select: publicFields,
+    });
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches a webhook by its ID
+ * @param {number} id - The webhook ID
+ * @returns {Promise<Webhook | null>}
+ */
+export async function getWebhook(id: number): Promise<Webhook | null> {
+  try {
+    return await prisma.webhook.findUnique({ where: { id }, select: publicFields });
+  } catch (error) {
+    console.error('Error fetching webhook:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Updates a webhook
+ * @param {number} id - The webhook ID
+ * @param {WebhookToUpdate} data - The validated changes
+ * @returns {Promise<Webhook | null>} - null if not found
+ */
+export async function updateWebhook(id: number, data: WebhookToUpdate): Promise<Webhook | null> {
+  try {
+    const { count } = await prisma.webhook.updateMany({ where: { id }, data });
+    return count > 0 ? await getWebhook(id) : null;
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Deletes a webhook and its delivery log
+ * @param {number} id - The webhook ID
+ * @param {AuditContext} context - Who deleted it, for the audit log
+ * @returns {Promise<boolean>} - True if the webhook existed
+ */
+export async function deleteWebhook(id: number, context: AuditContext): Promise<boolean> {
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const webhook = await tx.webhook.findUnique({ where: { id }, select: { url: true, notepadId: true } });
+      if (!webhook) {
+        return false;
+      }
+
+      await tx.webhook.delete({ where: { id } });
+      await writeAudit(tx, context, { action: 'webhook.deleted', targetType: 'webhook', targetId: id, before: webhook });
+      return true;
+    });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Queues an event for every active webhook subscribed to it whose owner can read the notepad.
+ * Webhooks for a single notepad also get the events of public notepads, the others only
+ * those of notepads their owner owns or is a member of.
+ * @param {NotepadEvent} event - The event
+ * @returns {Promise<number>} - How many deliveries were queued
+ */
+export async function enqueueDeliveries(event: NotepadEvent): Promise<number> {
+  try {
+    const { notepadId } = event;
+    const hasAccess = {
+      OR: [{ notepads: { some: { id: notepadId } } }, { memberships: { some: { notepadId } } }],
+    };
+
+    const webhooks = await prisma.webhook.findMany({
+      where: {
+        active: true,
+        events: { has: event.type },
+        OR: [
+          { notepadId: null, owner: hasAccess },
+          { notepadId, OR: [{ notepad: { isPublic: true } }, { owner: hasAccess }] },
+        ],
+      },
+      select: { id: true },
+    });
+
+    if (webhooks.length === 0) {
+      return 0;
+    }
+
+    const payload = { event: event.type, notepadId, occurredAt: event.at, data: event.data };
+    const { count } = await prisma.webhookDelivery.createMany({
+      data: webhooks.map((webhook) => ({
+        webhookId: webhook.id,
+        event: event.type,
+        payload: JSON.parse(JSON.stringify(payload)), // Dates as ISO strings, like the API returns them
+      })),
+    });
+
+    return count;
+  } catch (error) {
+    console.error('Error queueing webhook deliveries:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Queues a test event for a webhook, already claimed so the caller can send it right away
+ * @param {number} webhookId - The webhook ID
+ * @param {number} leaseMs - How long the claim lasts, see claimDueDeliveries()
+ * @returns {Promise<DueDelivery>}
+ */
+export async function enqueueTestDelivery(webhookId: number, leaseMs: number): Promise<DueDelivery> {
+  try {
+    return await prisma.webhookDelivery.create({
+      data: {
+        webhookId,
+        event: TEST_EVENT,
+        nextAttemptAt: new Date(Date.now() + leaseMs),
+        payload: { event: TEST_EVENT, webhookId, occurredAt: new Date().toISOString(), data: null },
+      },
+      include: { webhook: { select: { url: true, secret: true } } },
+    });
+  } catch (error) {
+    console.error('Error queueing test delivery:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Fetches the latest deliveries of a webhook, newest first
+ * @param {number} webhookId - The webhook ID
+ * @param {DeliveryQuery} query - The validated query
+ * @returns {Promise<Array<WebhookDelivery>>}
+ */
+export async function getDeliveries(webhookId: number, query: DeliveryQuery): Promise<Array<WebhookDelivery>> {
+  try {
+    return await prisma.webhookDelivery.findMany({
+      where: { webhookId, status: query.status },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: query.limit,
+    });
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Claims deliveries that are due, so that no other process sends them at the same time.
+ * A claim pushes the next attempt back by the lease, if the process dies the delivery is picked up again after it.
+ * @param {number} limit - Most deliveries to claim
+ * @param {number} leaseMs - How long a claim lasts
+ * @returns {Promise<Array<DueDelivery>>}
+ */
+export async function claimDueDeliveries(limit: number, leaseMs: number): Promise<Array<DueDelivery>> {
+  try {
+    const now = new Date();
+    const due = await prisma.webhookDelivery.findMany({
+      where: { status: 'pending', nextAttemptAt: { lte: now }, webhook: { active: true } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: limit,
+      include: { webhook: { select: { url: true, secret: true } } },
+    });
+
+    const claimed: Array<DueDelivery> = [];
+    for (const delivery of due) {
+      const { count } = await prisma.webhookDelivery.updateMany({
+        where: { id: delivery.id, status: 'pending', nextAttemptAt: delivery.nextAttemptAt },
+        data: { nextAttemptAt: new Date(now.getTime() + leaseMs) },
+      });
+      if (count > 0) claimed.push(delivery);
+    }
+
+    return claimed;
+  } catch (error) {
+    console.error('Error claiming webhook deliveries:', error);
+    throw new Error('Internal Server Error');
+  }
+}
+
+/**
+ * Records the outcome of an attempt to send a delivery
+ * @param {number} id - The delivery ID
+ * @param {object} outcome - What happened
+ * @param {boolean} outcome.succeeded - True if the receiver answered with a 2xx status
+ * @param {number | null} outcome.responseStatus - The HTTP status, null if the receiver could not be reached
+ * @param {string | null} outcome.error - Why the attempt failed
+ * @param {Date | null} outcome.retryAt - When to try again, null to give up
+ * @returns {Promise<WebhookDelivery>}
+ */
+export async function recordDeliveryAttempt(
+  id: number,
+  outcome: { succeeded: boolean; responseStatus: number | null; error: string | null; retryAt: Date | null }
+): Promise<WebhookDelivery> {
+  try {
+    const now = new Date();
+    return await prisma.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: outcome.succeeded ? 'succeeded' : outcome.retryAt ? 'pending' : 'failed',
+        attempts: { increment: 1 },
+        lastAttemptAt: now,
+        nextAttemptAt: outcome.retryAt ?? now,
+        responseStatus: outcome.responseStatus,
+        error: outcome.error,
+      },
+    });
+  } catch (error) {
+    console.error('Error recording webhook delivery:', error);
+    throw new Error('Internal Server Error');
+  }
+}
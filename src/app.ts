@@ -0,0 +1,44 @@
+import { Hono } from 'hono';
+import { cors } from 'hono/cors';
+import type { AppEnv } from './routes/middleware.js';
+import { metaRoutes } from './routes/meta.js';
+import { notepadRoutes } from './routes/notepads.js';
+import { memberRoutes } from './routes/members.js';
+import { noteRoutes } from './routes/notes.js';
+import { attachmentRoutes } from './routes/attachments.js';
+import { revisionRoutes } from './routes/revisions.js';
+import { eventRoutes } from './routes/events.js';
+import { webhookRoutes } from './routes/webhooks.js';
+import { trashRoutes } from './routes/trash.js';
+import { tagRoutes } from './routes/tags.js';
+import { searchRoutes } from './routes/search.js';
+import { userRoutes } from './routes/users.js';
+import { authRoutes } from './routes/auth.js';
+import { adminRoutes } from './routes/admin.js';
+
+const app = new Hono<AppEnv>();
+
+// Browsers only let clients read these headers when they are listed
+app.use('*', cors({ origin: '*', exposeHeaders: ['ETag', 'Content-Range', 'Content-Disposition'] }));
+
+// Each group of endpoints lives in src/routes, chained so the type of the app describes every route
+const routes = app
+  .route('/', metaRoutes)
+  .route('/', notepadRoutes)
+  .route('/', memberRoutes)
+  .route('/', noteRoutes)
+  .route('/', attachmentRoutes)
+  .route('/', revisionRoutes)
+  .route('/', eventRoutes)
+  .route('/', webhookRoutes)
+  .route('/', trashRoutes)
+  .route('/', tagRoutes)
+  .route('/', searchRoutes)
+  .route('/', userRoutes)
+  .route('/', authRoutes)
+  .route('/', adminRoutes);
+
+// The routes of the API as a type, used by the typed client in packages/client
+export type AppType = typeof routes;
+
+export default app;
@@ -1,39 +1,131 @@
 import { createHmac, timingSafeEqual } from 'crypto';
+import type { KeyRing } from './keyring.js';
+
+// Settings shared by signing and verification
+export type JwtSettings = {
+  keyRing: KeyRing;
+  issuer: string;
+  audience: string;
+  clockSkewSeconds: number;
+};
+
+// Base class for every reason a token is rejected
+export class TokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// The token is not a well formed HS256 JWT
+export class Malformed extends TokenError {}
+
+// The signature does not match, or the key it was signed with is unknown or retired
+export class BadSignature extends TokenError {}
+
+// The token is past its exp claim
+export class TokenExpired extends TokenError {}
+
+// The token is before its nbf claim
+export class TokenNotYetValid extends TokenError {}
+
+// The issuer or audience of the token is not ours
+export class InvalidClaims extends TokenError {}
+
+const ALGORITHM = 'HS256';
+
+/**
+ * Decodes a base64url encoded JSON object
+ */
+const decodeJson = (part: string): Record<string, any> => {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(part, 'base64url').toString());
+  } catch {
+    throw new Malformed('Token is not valid JSON');
+  }
+
+  if (!decoded || typeof decoded !== 'object' || Array.isArray(decoded)) {
+    throw new Malformed('Token is not valid JSON');
+  }
+
+  return decoded as Record<string, any>;
+};
 
 // JWT implementation using Node's crypto
-export const signToken = (payload: object, secret: string, expiresIn: number): string => {
-  const header = { alg: 'HS256', typ: 'JWT' };
+export const signToken = (payload: object, settings: JwtSettings, expiresIn: number): string => {
+  const { signingKey } = settings.keyRing;
+  const header = { alg: ALGORITHM, typ: 'JWT', kid: signingKey.kid };
   const now = Math.floor(Date.now() / 1000);
   const encodedHeader = Buffer.from(JSON.stringify(header)).toString('base64url');
   const encodedPayload = Buffer.from(JSON.stringify({
     ...payload,
+    iss: settings.issuer,
+    aud: settings.audience,
     iat: now,
+    nbf: now,
     exp: now + expiresIn
   })).toString('base64url');
-  
-  const signature = createHmac('sha256', secret)
+
+  const signature = createHmac('sha256', signingKey.secret)
     .update(`${encodedHeader}.${encodedPayload}`)
     .digest('base64url');
 
   return `${encodedHeader}.${encodedPayload}.${signature}`;
 };
 
-export const verifyToken = (token: string, secret: string): any => {
-  const [encodedHeader, encodedPayload, signature] = token.split('.');
-  
-  const expectedSignature = createHmac('sha256', secret)
+export const verifyToken = (token: string, settings: JwtSettings): any => {
+  const parts = token.split('.');
+  if (parts.length !== 3 || parts.some((part) => !/^[A-Za-z0-9_-]+$/.test(part))) {
+    throw new Malformed('Token must have three base64url encoded parts');
+  }
+
+  const [encodedHeader, encodedPayload, signature] = parts;
+  const header = decodeJson(encodedHeader);
+
+  // Only accept the algorithm we sign with, never let the token choose
+  if (header.alg !== ALGORITHM) {
+    throw new Malformed(`Unsupported algorithm: ${header.alg}`);
+  }
+  if (typeof header.kid !== 'string') {
+    throw new Malformed('Token has no key ID');
+  }
+
+  const key = settings.keyRing.getVerificationKey(header.kid);
+  if (!key) {
+    throw new BadSignature(`Unknown or retired key ID: ${header.kid}`);
+  }
+
+  const expectedSignature = createHmac('sha256', key.secret)
     .update(`${encodedHeader}.${encodedPayload}`)
-    .digest('base64url');
+    .digest();
+  const actualSignature = Buffer.from(signature, 'base64url');
 
-  if (!timingSafeEqual(Buffer.from(signature), Buffer.from(expectedSignature))) {
-    throw new Error('Invalid signature');
+  // timingSafeEqual throws on buffers of different length
+  if (actualSignature.length !== expectedSignature.length || !timingSafeEqual(actualSignature, expectedSignature)) {
+    throw new BadSignature('Invalid signature');
   }
 
-  const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
-  
-  if (payload.exp < Math.floor(Date.now() / 1000)) {
-    throw new Error('Token expired');
+  const payload = decodeJson(encodedPayload);
+  const now = Math.floor(Date.now() / 1000);
+
+  if (typeof payload.exp !== 'number') {
+    throw new Malformed('Token has no expiry');
+  }
+  if (payload.exp + settings.clockSkewSeconds < now) {
+    throw new TokenExpired('Token expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf - settings.clockSkewSeconds > now) {
+    throw new TokenNotYetValid('Token is not valid yet');
+  }
+  if (payload.iss !== settings.issuer) {
+    throw new InvalidClaims('Invalid token issuer');
+  }
+
+  const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audiences.includes(settings.audience)) {
+    throw new InvalidClaims('Invalid token audience');
   }
 
   return payload;
-};
\ No newline at end of file
+};
@@ -0,0 +1,58 @@
+// A set of HMAC keys identified by a key ID (kid).
+// New tokens are signed with one key while tokens signed with any other key that has not
+// been retired keep verifying, so keys can be rotated without logging everyone out:
+// add a new key and make it the signing key, then retire the old one once its tokens have expired.
+
+export type SigningKey = {
+  kid: string;
+  secret: string;
+  retired: boolean;
+};
+
+export type KeyRing = {
+  signingKey: SigningKey;
+  getVerificationKey: (kid: string) => SigningKey | undefined;
+};
+
+// HS256 keys shorter than the hash output weaken the signature
+const MIN_SECRET_LENGTH = 32;
+
+/**
+ * Creates a key ring from a list of keys
+ * @param {Array<SigningKey>} keys - All known keys, including retired ones
+ * @param {string} [signingKid] - The key to sign new tokens with, defaults to the last key that is not retired
+ * @returns {KeyRing}
+ */
+export function createKeyRing(keys: Array<SigningKey>, signingKid?: string): KeyRing {
+  const byKid = new Map<string, SigningKey>();
+  for (const key of keys) {
+    if (!key.kid || !key.secret) {
+      throw new Error('Every signing key needs a kid and a secret');
+    }
+    if (byKid.has(key.kid)) {
+      throw new Error(`Duplicate signing key ID: ${key.kid}`);
+    }
+    if (key.secret.length < MIN_SECRET_LENGTH && process.env.NODE_ENV === 'production') {
+      throw new Error(`Signing key ${key.kid} must be at least ${MIN_SECRET_LENGTH} characters`);
+    }
+    byKid.set(key.kid, key);
+  }
+
+  const activeKeys = keys.filter((key) => !key.retired);
+  const signingKey = signingKid ? byKid.get(signingKid) : activeKeys[activeKeys.length - 1];
+
+  if (!signingKey) {
+    throw new Error(signingKid ? `Unknown signing key ID: ${signingKid}` : 'No active signing key configured');
+  }
+  if (signingKey.retired) {
+    throw new Error(`Signing key ${signingKey.kid} is retired`);
+  }
+
+  return {
+    signingKey,
+    getVerificationKey: (kid: string) => {
+      const key = byKid.get(kid);
+      return key && !key.retired ? key : undefined;
+    },
+  };
+}
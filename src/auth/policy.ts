@@ -0,0 +1,129 @@
+import { getNotepad, userOwnsNotepad } from '../Database/notepad.db.js';
+import { getNoteById } from '../Database/notes.db.js';
+import { getNotepadRole } from '../Database/member.db.js';
+import type { UserRole } from '@prisma/client';
+import { getUserById, USER_ROLES } from '../Database/user.db.js';
+import { config } from '../config.js';
+
+/**
+ * Checks if a user may read a notepad and the notes in it.
+ * Public notepads are readable by anyone, private notepads only by their owner and members.
+ * @param {number} notepadId - The ID of the notepad
+ * @param {number} [userId] - The ID of the caller, undefined for anonymous requests
+ * @returns {Promise<boolean>} - True if the notepad exists and the caller may read it
+ */
+export async function canReadNotepad(notepadId: number, userId?: number): Promise<boolean> {
+  const notepad = await getNotepad(notepadId);
+  if (!notepad) {
+    return false;
+  }
+
+  if (notepad.isPublic) {
+    return true;
+  }
+
+  if (userId === undefined) {
+    return false;
+  }
+
+  return (await getNotepadRole(notepadId, userId)) !== null;
+}
+
+/**
+ * Checks if a user may add, change and remove notes in a notepad or edit its title and description.
+ * @param {number} notepadId - The ID of the notepad
+ * @param {number} [userId] - The ID of the caller, undefined for anonymous requests
+ * @returns {Promise<boolean>} - True if the caller is the owner or an editor
+ */
+export async function canWriteNotepad(notepadId: number, userId?: number): Promise<boolean> {
+  if (userId === undefined) {
+    return false;
+  }
+
+  const role = await getNotepadRole(notepadId, userId);
+  return role === 'owner' || role === 'editor';
+}
+
+/**
+ * Checks if a user may delete a notepad, change its visibility or manage its members.
+ * @param {number} notepadId - The ID of the notepad
+ * @param {number} [userId] - The ID of the caller, undefined for anonymous requests
+ * @returns {Promise<boolean>} - True if the caller owns the notepad
+ */
+export async function canManageNotepad(notepadId: number, userId?: number): Promise<boolean> {
+  if (userId === undefined) {
+    return false;
+  }
+
+  return userOwnsNotepad(notepadId, userId);
+}
+
+/**
+ * Checks if a user may read a note, which is decided by its parent notepad.
+ * @param {number} noteId - The ID of the note
+ * @param {number} [userId] - The ID of the caller, undefined for anonymous requests
+ * @returns {Promise<boolean>} - True if the note exists and the caller may read it
+ */
+export async function canReadNote(noteId: number, userId?: number): Promise<boolean> {
+  const note = await getNoteById(noteId);
+  if (!note) {
+    return false;
+  }
+
+  return canReadNotepad(note.notepadId, userId);
+}
+
+/**
+ * Checks if a user may update or delete a note, which is decided by its parent notepad.
+ * @param {number} noteId - The ID of the note
+ * @param {number} [userId] - The ID of the caller, undefined for anonymous requests
+ * @returns {Promise<boolean>} - True if the note exists and the caller may change it
+ */
+export async function canWriteNote(noteId: number, userId?: number): Promise<boolean> {
+  const note = await getNoteById(noteId);
+  if (!note) {
+    return false;
+  }
+
+  return canWriteNotepad(note.notepadId, userId);
+}
+
+/**
+ * Checks if a user may make a notepad public.
+ * When configured, publishing is only allowed once the user has verified their email.
+ * @param {number} [userId] - The ID of the caller, undefined for anonymous requests
+ * @returns {Promise<boolean>}
+ */
+export async function canPublishNotepad(userId?: number): Promise<boolean> {
+  if (userId === undefined) {
+    return false;
+  }
+
+  if (!config.emailVerification.requiredToPublish) {
+    return true;
+  }
+
+  const user = await getUserById(userId);
+  return Boolean(user?.emailVerifiedAt);
+}
+
+/**
+ * Checks if a site-wide role may do what another may, e.g. an admin may do everything a moderator may.
+ * @param {UserRole} role - The role of the caller
+ * @param {UserRole} minimum - The lowest role allowed
+ * @returns {boolean}
+ */
+export function hasRole(role: UserRole, minimum: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(minimum);
+}
+
+/**
+ * Checks if a moderator or admin may act on another user's account, e.g. suspend it.
+ * Only users with a lower role may be acted on, so moderators cannot suspend each other.
+ * @param {UserRole} role - The role of the caller
+ * @param {UserRole} targetRole - The role of the account acted on
+ * @returns {boolean}
+ */
+export function outranks(role: UserRole, targetRole: UserRole): boolean {
+  return USER_ROLES.indexOf(role) > USER_ROLES.indexOf(targetRole);
+}
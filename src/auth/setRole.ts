@@ -0,0 +1,23 @@
+import { getUserByEmail, setUserRole, UserRoleSchema } from '../Database/user.db.js';
+import { SYSTEM_CONTEXT } from '../Database/audit.db.js';
+
+// Gives a user a site-wide role from the command line, e.g. to make the first admin:
+// `npm run set-role -- admin@example.com admin`
+
+const [email, roleArg] = process.argv.slice(2);
+const role = UserRoleSchema.safeParse(roleArg);
+
+if (!email || !role.success) {
+  console.error(`Usage: npm run set-role -- <email> <${UserRoleSchema.options.join('|')}>`);
+  process.exit(1);
+}
+
+const user = await getUserByEmail(email);
+if (!user) {
+  console.error(`No user with the email ${email}`);
+  process.exit(1);
+}
+
+await setUserRole(user.id, role.data, SYSTEM_CONTEXT);
+console.log(`${user.username} now has the role ${role.data}`);
+process.exit(0);
@@ -0,0 +1,171 @@
+// Configuration read from environment variables, with defaults suitable for local development
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+type SigningKeyConfig = {
+  kid: string;
+  secret: string;
+  retired: boolean;
+};
+
+/**
+ * Reads the JWT signing keys.
+ * JWT_KEYS is a JSON array of { kid, secret, retired? } objects, JWT_SECRET is a shorthand for a single key.
+ * @returns {Array<SigningKeyConfig>}
+ */
+function readSigningKeys(): Array<SigningKeyConfig> {
+  if (process.env.JWT_KEYS) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(process.env.JWT_KEYS);
+    } catch {
+      throw new Error('JWT_KEYS must be a JSON array of { kid, secret, retired? } objects');
+    }
+
+    if (!Array.isArray(parsed)) {
+      throw new Error('JWT_KEYS must be a JSON array of { kid, secret, retired? } objects');
+    }
+
+    return parsed.map((key) => ({
+      kid: String(key.kid),
+      secret: String(key.secret),
+      retired: Boolean(key.retired),
+    }));
+  }
+
+  if (process.env.JWT_SECRET) {
+    return [{ kid: 'default', secret: process.env.JWT_SECRET, retired: false }];
+  }
+
+  if (isProduction) {
+    throw new Error('JWT_KEYS or JWT_SECRET must be set in production');
+  }
+
+  console.warn('JWT_KEYS is not set, using an insecure development key');
+  return [{ kid: 'dev', secret: 'my-secret-key', retired: false }];
+}
+
+/**
+ * Reads the limits of a rate limited route group, e.g. RATE_LIMIT_LOGIN_CAPACITY and RATE_LIMIT_LOGIN_PER_MINUTE
+ * @param {string} name - The route group
+ * @param {number} capacity - Default burst size
+ * @param {number} refillPerMinute - Default sustained rate
+ * @returns {{ capacity: number, refillPerMinute: number }}
+ */
+function readBucket(name: string, capacity: number, refillPerMinute: number) {
+  const bucket = {
+    capacity: Number(process.env[`RATE_LIMIT_${name}_CAPACITY`] ?? capacity),
+    refillPerMinute: Number(process.env[`RATE_LIMIT_${name}_PER_MINUTE`] ?? refillPerMinute),
+  };
+
+  if (!(bucket.capacity >= 1) || !(bucket.refillPerMinute > 0)) {
+    throw new Error(`RATE_LIMIT_${name}_CAPACITY must be at least 1 and RATE_LIMIT_${name}_PER_MINUTE above 0`);
+  }
+
+  return bucket;
+}
+
+/**
+ * Reads a setting that must be a whole number above 0, such as an interval
+ * @param {string} name - The environment variable
+ * @param {number} fallback - Used when it is not set
+ * @returns {number}
+ */
+function readPositiveInteger(name: string, fallback: number): number {
+  const value = Number(process.env[name] ?? fallback);
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a whole number of at least 1`);
+  }
+
+  return value;
+}
+
+export const config = {
+  isProduction,
+  appUrl: process.env.APP_URL ?? 'http://localhost:3000', // The frontend, used for links in emails
+  trustProxy: process.env.TRUST_PROXY === 'true', // Take the client IP from X-Forwarded-For, only safe behind a proxy
+  jwt: {
+    keys: readSigningKeys(),
+    signingKid: process.env.JWT_SIGNING_KID, // Defaults to the last key that is not retired
+    issuer: process.env.JWT_ISSUER ?? 'notepad-api',
+    audience: process.env.JWT_AUDIENCE ?? 'notepad-api',
+    clockSkewSeconds: Number(process.env.JWT_CLOCK_SKEW_SECONDS ?? 30),
+  },
+  emailVerification: {
+    requiredToPublish: process.env.REQUIRE_VERIFIED_EMAIL_TO_PUBLISH === 'true', // Block public notepads until verified
+    resendIntervalSeconds: Number(process.env.VERIFICATION_RESEND_INTERVAL_SECONDS ?? 60),
+  },
+  revisions: {
+    keep: Number(process.env.NOTE_REVISIONS_KEEP ?? 100), // Newest revisions kept per note
+    maxAgeDays: Number(process.env.NOTE_REVISIONS_MAX_AGE_DAYS ?? 0), // 0 keeps revisions regardless of age
+  },
+  trash: {
+    retentionDays: Number(process.env.TRASH_RETENTION_DAYS ?? 30), // Deleted items are purged for good after this
+    purgeIntervalMinutes: readPositiveInteger('TRASH_PURGE_INTERVAL_MINUTES', 60),
+  },
+  audit: {
+    retentionDays: Number(process.env.AUDIT_RETENTION_DAYS ?? 365), // Entries are removed after this, 0 keeps them forever
+    purgeIntervalMinutes: readPositiveInteger('AUDIT_PURGE_INTERVAL_MINUTES', 60),
+  },
+  imports: {
+    maxUploadBytes: Number(process.env.IMPORT_MAX_UPLOAD_MB ?? 20) * 1024 * 1024,
+    maxExtractedBytes: Number(process.env.IMPORT_MAX_EXTRACTED_MB ?? 100) * 1024 * 1024, // Guards against zip bombs
+    maxNotes: Number(process.env.IMPORT_MAX_NOTES ?? 2000),
+  },
+  attachments: {
+    maxBytes: Number(process.env.ATTACHMENT_MAX_MB ?? 10) * 1024 * 1024, // Per file
+    maxPerNote: Number(process.env.ATTACHMENT_MAX_PER_NOTE ?? 20),
+    // Comma separated, SVG and HTML are left out by default because browsers run scripts in them
+    allowedTypes: (process.env.ATTACHMENT_ALLOWED_TYPES ?? 'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/plain,text/markdown,text/csv')
+      .split(',')
+      .map((type) => type.trim().toLowerCase())
+      .filter((type) => type !== ''),
+  },
+  storage: {
+    driver: process.env.STORAGE_DRIVER === 's3' ? 's3' : 'local',
+    localDir: process.env.STORAGE_DIR ?? 'uploads', // Used by the local driver
+    s3: {
+      endpoint: process.env.S3_ENDPOINT ?? 'https://s3.amazonaws.com',
+      region: process.env.S3_REGION ?? 'us-east-1',
+      bucket: process.env.S3_BUCKET ?? '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID ?? '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? '',
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false', // Most S3-compatible services need it
+    },
+  },
+  events: {
+    historySize: Number(process.env.EVENTS_HISTORY_SIZE ?? 1000), // Latest events kept for clients that reconnect
+    heartbeatSeconds: Number(process.env.EVENTS_HEARTBEAT_SECONDS ?? 25), // Keeps idle streams open through proxies
+  },
+  webhooks: {
+    pollIntervalSeconds: Number(process.env.WEBHOOK_POLL_INTERVAL_SECONDS ?? 10), // How often the queue is checked for due deliveries
+    timeoutSeconds: Number(process.env.WEBHOOK_TIMEOUT_SECONDS ?? 10), // Per attempt
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS ?? 8), // A delivery is marked failed after this
+    backoffBaseSeconds: Number(process.env.WEBHOOK_BACKOFF_BASE_SECONDS ?? 30), // Doubles after every failed attempt
+    backoffMaxSeconds: Number(process.env.WEBHOOK_BACKOFF_MAX_SECONDS ?? 6 * 60 * 60),
+    allowPrivateTargets: process.env.WEBHOOK_ALLOW_PRIVATE_TARGETS === 'true', // Lets webhooks call local and private addresses, for development only
+  },
+  rateLimit: {
+    auth: readBucket('AUTH', 20, 10), // Per IP on the /auth endpoints that take credentials or tokens
+    login: readBucket('LOGIN', 10, 5), // Per account on /auth/login
+    signup: readBucket('SIGNUP', 5, 1), // Per IP on POST /users
+    lockout: {
+      threshold: Number(process.env.LOGIN_LOCKOUT_THRESHOLD ?? 5), // Failed logins before the account is locked
+      baseSeconds: Number(process.env.LOGIN_LOCKOUT_BASE_SECONDS ?? 30), // Doubles with every further failure
+      maxSeconds: Number(process.env.LOGIN_LOCKOUT_MAX_SECONDS ?? 15 * 60),
+      windowMinutes: Number(process.env.LOGIN_LOCKOUT_WINDOW_MINUTES ?? 60), // Failures are forgotten after this
+    },
+  },
+  mail: {
+    transport: process.env.MAIL_TRANSPORT === 'smtp' ? 'smtp' : 'outbox',
+    from: process.env.MAIL_FROM ?? 'Notepad <no-reply@localhost>',
+    outboxDir: process.env.MAIL_OUTBOX_DIR, // Messages are printed to the console when not set
+    smtp: {
+      host: process.env.SMTP_HOST ?? 'localhost',
+      port: Number(process.env.SMTP_PORT ?? 587),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    },
+  },
+};
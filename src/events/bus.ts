@@ -0,0 +1,117 @@
+import { EventEmitter } from 'node:events';
+import { config } from '../config.js';
+
+// Every kind of change that is published
+export const NOTEPAD_EVENT_TYPES = [
+  'note.created',
+  'note.updated',
+  'note.deleted',
+  'note.moved',
+  'notepad.created',
+  'notepad.updated',
+  'notepad.published',
+  'notepad.deleted',
+] as const;
+
+// Type definitions
+export type NotepadEventType = (typeof NOTEPAD_EVENT_TYPES)[number];
+
+export type NotepadEvent = {
+  id: string;
+  type: NotepadEventType;
+  notepadId: number;
+  data: unknown;
+  at: Date;
+};
+
+type Listener = (event: NotepadEvent) => void;
+
+// Channel that receives the events of every notepad
+const ALL_NOTEPADS = 'notepad:*';
+
+/**
+ * In-process bus for changes to notepads and their notes.
+ * The latest events are kept so a client that reconnects with Last-Event-ID gets what it missed.
+ * Event IDs carry an ID of the process, so IDs from before a restart are recognised as unknown.
+ * @param {number} [historySize] - How many of the latest events are kept for replay
+ */
+export function createEventBus(historySize: number = config.events.historySize) {
+  const emitter = new EventEmitter();
+  emitter.setMaxListeners(0); // One listener per open stream
+  const bootId = Date.now().toString(36);
+  const history: Array<{ sequence: number; event: NotepadEvent }> = [];
+  let sequence = 0;
+
+  const channel = (notepadId: number) => `notepad:${notepadId}`;
+
+  return {
+    /**
+     * Sends an event to everyone subscribed to the notepad
+     * @param {NotepadEventType} type - What happened
+     * @param {number} notepadId - The notepad it happened in
+     * @param {unknown} data - The payload, sent to clients as JSON
+     * @returns {NotepadEvent}
+     */
+    publish(type: NotepadEventType, notepadId: number, data: unknown): NotepadEvent {
+      sequence += 1;
+      const event: NotepadEvent = { id: `${bootId}-${sequence}`, type, notepadId, data, at: new Date() };
+
+      history.push({ sequence, event });
+      if (history.length > historySize) history.shift();
+
+      emitter.emit(channel(notepadId), event);
+      emitter.emit(ALL_NOTEPADS, event);
+      return event;
+    },
+
+    /**
+     * Listens for the events of a notepad
+     * @param {number} notepadId - The notepad to listen to
+     * @param {Listener} listener - Called with every event
+     * @returns {() => void} - Stops listening
+     */
+    subscribe(notepadId: number, listener: Listener): () => void {
+      emitter.on(channel(notepadId), listener);
+      return () => {
+        emitter.off(channel(notepadId), listener);
+      };
+    },
+
+    /**
+     * Listens for the events of every notepad
+     * @param {Listener} listener - Called with every event
+     * @returns {() => void} - Stops listening
+     */
+    subscribeAll(listener: Listener): () => void {
+      emitter.on(ALL_NOTEPADS, listener);
+      return () => {
+        emitter.off(ALL_NOTEPADS, listener);
+      };
+    },
+
+    /**
+     * Fetches the events of a notepad published after the given one
+     * @param {number} notepadId - The notepad
+     * @param {string} lastEventId - The last event the client received
+     * @returns {Array<NotepadEvent> | null} - null if the ID is unknown or older than the history, the client has to reload
+     */
+    replay(notepadId: number, lastEventId: string): Array<NotepadEvent> | null {
+      const match = /^([0-9a-z]+)-(\d+)$/.exec(lastEventId);
+      if (!match || match[1] !== bootId) {
+        return null;
+      }
+
+      const lastSequence = Number(match[2]);
+      const oldest = history.length ? history[0].sequence : sequence + 1;
+      if (lastSequence > sequence || lastSequence < oldest - 1) {
+        return null;
+      }
+
+      return history
+        .filter((entry) => entry.sequence > lastSequence && entry.event.notepadId === notepadId)
+        .map((entry) => entry.event);
+    },
+  };
+}
+
+export const eventBus = createEventBus();
@@ -0,0 +1,149 @@
+// Line based diff using Myers' algorithm, the same approach as `git diff`
+
+export type DiffLine = {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+  oldLine?: number; // 1-based line number in the old text, for equal and removed lines
+  newLine?: number; // 1-based line number in the new text, for equal and added lines
+};
+
+// Above this many changed lines the shortest edit script gets expensive to find,
+// and the texts are treated as entirely replaced instead
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Splits a text into lines, ignoring the line break at the end of the last line
+ * @param {string} text
+ * @returns {Array<string>}
+ */
+function splitLines(text: string): Array<string> {
+  if (text === '') {
+    return [];
+  }
+
+  return text.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+}
+
+/**
+ * Finds the shortest sequence of line insertions and deletions that turns a into b
+ * @param {Array<string>} a - Old lines
+ * @param {Array<string>} b - New lines
+ * @returns {Array<'equal' | 'added' | 'removed'> | null} - The edit script, or null if it is too long to compute
+ */
+function shortestEditScript(a: Array<string>, b: Array<string>): Array<'equal' | 'added' | 'removed'> | null {
+  const n = a.length;
+  const m = b.length;
+  const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = maxD + 1;
+  const v = new Int32Array(2 * maxD + 3);
+
+  // trace[d] holds the furthest x reached on diagonals -d-1..d+1 before step d
+  const trace: Array<Int32Array> = [];
+  const traced = (d: number, k: number) => trace[d][k + d + 1];
+
+  let found = false;
+  for (let d = 0; d <= maxD && !found; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  if (!found) {
+    return null;
+  }
+
+  // Walk back through the trace from the end to recover the edits
+  const edits: Array<'equal' | 'added' | 'removed'> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const k = x - y;
+    const prevK = k === -d || (k !== d && traced(d, k - 1) < traced(d, k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : traced(d, prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push('equal');
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      edits.push(x === prevX ? 'added' : 'removed');
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Compares two texts line by line
+ * @param {string} oldText - The earlier text
+ * @param {string} newText - The later text
+ * @returns {Array<DiffLine>} - Every line of both texts, marked as equal, added or removed
+ */
+export function diffLines(oldText: string, newText: string): Array<DiffLine> {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Lines shared at the start and end are the common case and need no searching
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = shortestEditScript(middleA, middleB)
+    ?? [...middleA.map(() => 'removed' as const), ...middleB.map(() => 'added' as const)];
+
+  const script = [
+    ...new Array<'equal'>(prefix).fill('equal'),
+    ...middle,
+    ...new Array<'equal'>(suffix).fill('equal'),
+  ];
+
+  const lines: Array<DiffLine> = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  for (const type of script) {
+    if (type === 'equal') {
+      lines.push({ type, text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+      oldIndex++;
+      newIndex++;
+    } else if (type === 'removed') {
+      lines.push({ type, text: a[oldIndex], oldLine: oldIndex + 1 });
+      oldIndex++;
+    } else {
+      lines.push({ type, text: b[newIndex], newLine: newIndex + 1 });
+      newIndex++;
+    }
+  }
+
+  return lines;
+}
@@ -0,0 +1,42 @@
+// Magic numbers at the start of the binary types we accept, so a file cannot pass itself off as one of them
+const signatures: Record<string, Array<{ offset: number; bytes: Array<number> }>> = {
+  'image/png': [{ offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] }],
+  'image/jpeg': [{ offset: 0, bytes: [0xff, 0xd8, 0xff] }],
+  'image/gif': [{ offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }], // GIF8
+  'image/webp': [
+    { offset: 0, bytes: [0x52, 0x49, 0x46, 0x46] }, // RIFF
+    { offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] }, // WEBP
+  ],
+  'application/pdf': [{ offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }], // %PDF-
+};
+
+/**
+ * Normalizes the content type a client sent, e.g. "Text/Plain; charset=utf-8" becomes "text/plain"
+ * @param {string} contentType - The type from the upload, may be empty
+ * @returns {string} - application/octet-stream when no type was sent
+ */
+export function normalizeContentType(contentType: string): string {
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return type === '' ? 'application/octet-stream' : type;
+}
+
+/**
+ * Checks that the content of a file looks like its declared type.
+ * Binary types must start with their magic number, text types must not contain NUL bytes.
+ * Types we know nothing about are not checked.
+ * @param {string} contentType - The normalized type
+ * @param {Uint8Array} data - The file
+ * @returns {boolean}
+ */
+export function matchesContentType(contentType: string, data: Uint8Array): boolean {
+  const signature = signatures[contentType];
+  if (signature) {
+    return signature.every(({ offset, bytes }) => bytes.every((byte, i) => data[offset + i] === byte));
+  }
+
+  if (contentType.startsWith('text/')) {
+    return !data.includes(0);
+  }
+
+  return true;
+}
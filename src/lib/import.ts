@@ -0,0 +1,382 @@
+import { z } from 'zod';
+import { unzipSync, strFromU8 } from 'fflate';
+import { parse as parseYaml } from 'yaml';
+import { XMLParser } from 'fast-xml-parser';
+import TurndownService from 'turndown';
+import { EXPORT_VERSION } from '../render/export.js';
+
+// Type definitions
+export type ParsedNote = {
+  source: string; // Where the note came from, e.g. the path in the zip, used in the import report
+  title: string;
+  content: string;
+  format: 'plain' | 'markdown';
+  pinned?: boolean;
+  tags: Array<string>;
+  createdAt?: Date;
+  updatedAt?: Date;
+};
+
+export type ParsedNotepad = {
+  source: string;
+  title: string | null; // null puts the notes in the notepad chosen for the upload
+  description?: string | null;
+  tags: Array<string>;
+  createdAt?: Date;
+  updatedAt?: Date;
+  notes: Array<ParsedNote>;
+};
+
+export type ParsedUpload = {
+  title: string; // Title for a new notepad when the notes are not imported into an existing one
+  notepads: Array<ParsedNotepad>;
+  skipped: Array<{ source: string; reason: string }>; // Files that were not notes at all
+};
+
+type ImportLimits = {
+  maxBytes: number; // Largest total size of the files in an archive, once extracted
+  maxNotes: number;
+};
+
+/**
+ * Raised when an upload cannot be read, the message is safe to show to the client
+ */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Zod schema for the JSON export, see render/export.ts
+const ExportDocumentSchema = z.object({
+  version: z.number().int().min(1).max(EXPORT_VERSION),
+  notepad: z.object({
+    title: z.string(),
+    description: z.string().nullable().optional(),
+    tags: z.array(z.string()).default([]),
+    createdAt: z.coerce.date().optional(),
+    updatedAt: z.coerce.date().optional(),
+    notes: z.array(
+      z.object({
+        title: z.string(),
+        content: z.string(),
+        format: z.enum(['plain', 'markdown']).default('markdown'),
+        pinned: z.boolean().default(false), // Since version 2
+        position: z.number().int().optional(), // Since version 2, version 1 notes keep the order of the file
+        tags: z.array(z.string()).default([]),
+        createdAt: z.coerce.date().optional(),
+        updatedAt: z.coerce.date().optional(),
+      })
+    ),
+  }),
+});
+
+const NOTE_FILE = /\.(md|markdown|txt)$/i;
+
+/**
+ * Removes the folders and extension from a path
+ * @param {string} path - A file path
+ * @returns {string}
+ */
+function baseName(path: string): string {
+  return path.replace(/^.*\//, '').replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Reads a date from front matter or an export, undefined when missing or invalid
+ * @param {unknown} value - The value to read
+ * @returns {Date | undefined}
+ */
+function toDate(value: unknown): Date | undefined {
+  if (!(value instanceof Date) && typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Turns tags from other apps into names the tag schema accepts, e.g. "Uni/Physics 101" becomes "uni-physics-101"
+ * @param {unknown} value - A list of tags or a comma or space separated string
+ * @returns {Array<string>}
+ */
+function normalizeTags(value: unknown): Array<string> {
+  const raw = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+
+  return raw
+    .filter((tag): tag is string | number => typeof tag === 'string' || typeof tag === 'number')
+    .map((tag) =>
+      String(tag)
+        .toLowerCase()
+        .replace(/^#/, '')
+        .replace(/[^\p{L}\p{N}_-]+/gu, '-')
+        .replace(/^[-_]+|-+$/g, '')
+    )
+    .filter((tag) => tag !== '');
+}
+
+/**
+ * Parses a Markdown or text file, reading the title, tags and dates from YAML front matter when present.
+ * Without a title in the front matter the first heading is used, and then the file name.
+ * @param {string} source - The path of the file
+ * @param {string} text - The contents of the file
+ * @returns {ParsedNote}
+ */
+export function parseMarkdownFile(source: string, text: string): ParsedNote {
+  let content = text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+  let meta: Record<string, unknown> = {};
+
+  const frontMatter = /^---\n([\s\S]*?)\n---(?:\n|$)/.exec(content);
+  if (frontMatter) {
+    try {
+      const parsed = parseYaml(frontMatter[1]);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        meta = parsed as Record<string, unknown>;
+        content = content.slice(frontMatter[0].length).replace(/^\n+/, '');
+      }
+    } catch {
+      // Not front matter after all, the file is imported as written
+    }
+  }
+
+  const heading = /^#\s+(.+)$/m.exec(content);
+  const title = typeof meta.title === 'string' && meta.title.trim()
+    ? meta.title.trim()
+    : heading?.[1].trim() || baseName(source);
+
+  const isText = /\.txt$/i.test(source);
+  const format = meta.format === 'plain' || meta.format === 'markdown' ? meta.format : isText ? 'plain' : 'markdown';
+
+  return {
+    source,
+    title,
+    content,
+    format,
+    pinned: meta.pinned === true,
+    tags: normalizeTags(meta.tags),
+    createdAt: toDate(meta.created ?? meta.createdAt ?? meta.date),
+    updatedAt: toDate(meta.updated ?? meta.updatedAt ?? meta.modified),
+  };
+}
+
+/**
+ * Parses a zip of Markdown files. Each folder becomes a notepad named after its path,
+ * files at the top level go to the notepad chosen for the upload.
+ * When everything is inside a single folder, as when a folder is zipped, that folder is treated as the top level.
+ * @param {Uint8Array} data - The zip archive
+ * @param {ImportLimits} limits - Size and count limits
+ * @returns {ParsedUpload}
+ */
+export function parseZip(data: Uint8Array, limits: ImportLimits): ParsedUpload {
+  const skipped: ParsedUpload['skipped'] = [];
+  let totalBytes = 0;
+  let files: Record<string, Uint8Array>;
+
+  try {
+    files = unzipSync(data, {
+      filter: (file) => {
+        if (file.name.endsWith('/') || file.name.startsWith('__MACOSX/') || /(^|\/)\./.test(file.name)) {
+          return false; // Folders, macOS metadata and hidden files such as .obsidian/ are ignored
+        }
+        if (!NOTE_FILE.test(file.name)) {
+          skipped.push({ source: file.name, reason: 'Unsupported file type' });
+          return false;
+        }
+
+        totalBytes += file.originalSize;
+        if (totalBytes > limits.maxBytes) {
+          throw new ImportError(`The archive is larger than ${Math.floor(limits.maxBytes / 1024 / 1024)} MB when extracted`);
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof ImportError) throw error;
+    throw new ImportError('The file is not a valid zip archive');
+  }
+
+  const paths = Object.keys(files).sort();
+  if (paths.length > limits.maxNotes) {
+    throw new ImportError(`An import can contain at most ${limits.maxNotes} notes`);
+  }
+
+  // Strip a single folder that wraps the whole archive
+  const roots = new Set(paths.map((path) => (path.includes('/') ? path.split('/')[0] : '')));
+  const prefix = roots.size === 1 && !roots.has('') ? `${[...roots][0]}/` : '';
+
+  const byFolder = new Map<string, ParsedNotepad>();
+  for (const path of paths) {
+    const relative = path.slice(prefix.length);
+    const folder = relative.includes('/') ? relative.slice(0, relative.lastIndexOf('/')) : '';
+
+    let notepad = byFolder.get(folder);
+    if (!notepad) {
+      notepad = {
+        source: folder ? `${prefix}${folder}/` : prefix || '/',
+        title: folder ? folder.split('/').join(' / ') : null,
+        tags: [],
+        notes: [],
+      };
+      byFolder.set(folder, notepad);
+    }
+
+    notepad.notes.push(parseMarkdownFile(path, strFromU8(files[path])));
+  }
+
+  return { title: prefix ? prefix.slice(0, -1) : '', notepads: [...byFolder.values()], skipped };
+}
+
+/**
+ * Reads an Evernote date such as 20240131T120000Z
+ * @param {unknown} value - The date as written in the export
+ * @returns {Date | undefined}
+ */
+function enexDate(value: unknown): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(String(value ?? ''));
+  return match ? toDate(`${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`) : undefined;
+}
+
+/**
+ * Parses an Evernote export into a single notebook, converting the note bodies to Markdown.
+ * Attachments are not imported.
+ * @param {string} source - The name of the uploaded file
+ * @param {string} text - The contents of the .enex file
+ * @param {ImportLimits} limits - Size and count limits
+ * @returns {ParsedUpload}
+ */
+export function parseEnex(source: string, text: string, limits: ImportLimits): ParsedUpload {
+  const parser = new XMLParser({
+    ignoreAttributes: true,
+    parseTagValue: false,
+    isArray: (name) => name === 'note' || name === 'tag',
+  });
+
+  let document: { 'en-export'?: { note?: Array<Record<string, unknown>> } };
+  try {
+    document = parser.parse(text);
+  } catch {
+    throw new ImportError('The file is not a valid Evernote export');
+  }
+
+  if (!document['en-export']) {
+    throw new ImportError('The file is not a valid Evernote export');
+  }
+
+  const enexNotes = document['en-export'].note ?? [];
+  if (enexNotes.length > limits.maxNotes) {
+    throw new ImportError(`An import can contain at most ${limits.maxNotes} notes`);
+  }
+
+  const turndown = new TurndownService({ headingStyle: 'atx', codeBlockStyle: 'fenced', bulletListMarker: '-' });
+  turndown.remove((node) => node.nodeName === 'EN-MEDIA'); // Attachments are not imported
+  turndown.addRule('enTodo', {
+    filter: (node) => node.nodeName === 'EN-TODO',
+    // HTML parsing does not know the tag is empty, so the text after a checkbox ends up inside it
+    replacement: (content, node) => `${(node as Element).getAttribute('checked') === 'true' ? '[x]' : '[ ]'} ${content}`,
+  });
+
+  const notes = enexNotes.map((note, index) => {
+    const title = typeof note.title === 'string' ? note.title.trim() : '';
+    const html = String(note.content ?? '')
+      .replace(/<\?xml[^>]*\?>/, '')
+      .replace(/<!DOCTYPE[^>]*>/i, '');
+
+    return {
+      source: `${source}#${index + 1}`,
+      title,
+      content: turndown.turndown(html).trim(),
+      format: 'markdown' as const,
+      tags: normalizeTags(note.tag),
+      createdAt: enexDate(note.created),
+      updatedAt: enexDate(note.updated),
+    };
+  });
+
+  return { title: '', notepads: [{ source, title: null, tags: [], notes }], skipped: [] };
+}
+
+/**
+ * Parses a JSON export made by GET /notepads/:id/export?format=json
+ * @param {string} source - The name of the uploaded file
+ * @param {string} text - The contents of the file
+ * @param {ImportLimits} limits - Size and count limits
+ * @returns {ParsedUpload}
+ */
+export function parseJsonExport(source: string, text: string, limits: ImportLimits): ParsedUpload {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportError('The file is not valid JSON');
+  }
+
+  const document = ExportDocumentSchema.safeParse(data);
+  if (!document.success) {
+    throw new ImportError('The file is not a notepad export, or was made by a newer version');
+  }
+
+  const { notepad } = document.data;
+  if (notepad.notes.length > limits.maxNotes) {
+    throw new ImportError(`An import can contain at most ${limits.maxNotes} notes`);
+  }
+
+  return {
+    title: '',
+    notepads: [
+      {
+        source,
+        title: notepad.title,
+        description: notepad.description ?? null,
+        tags: notepad.tags,
+        createdAt: notepad.createdAt,
+        updatedAt: notepad.updatedAt,
+        // Notes are imported in this order: by position since version 2, in the order of the file before
+        notes: notepad.notes
+          .map(({ position, ...note }, index) => ({ note: { ...note, source: `${source}#${index + 1}` }, position: position ?? index }))
+          .sort((a, b) => a.position - b.position)
+          .map(({ note }) => note),
+      },
+    ],
+    skipped: [],
+  };
+}
+
+/**
+ * Parses an uploaded file based on its extension: .md, .markdown, .txt, .zip, .enex or .json
+ * @param {string} fileName - The name of the uploaded file
+ * @param {Uint8Array} data - The contents of the file
+ * @param {ImportLimits} limits - Size and count limits
+ * @returns {ParsedUpload}
+ */
+export function parseUpload(fileName: string, data: Uint8Array, limits: ImportLimits): ParsedUpload {
+  const extension = /\.([^.]+)$/.exec(fileName)?.[1].toLowerCase();
+  let upload: ParsedUpload;
+
+  switch (extension) {
+    case 'md':
+    case 'markdown':
+    case 'txt':
+      upload = {
+        title: '',
+        notepads: [{ source: '/', title: null, tags: [], notes: [parseMarkdownFile(fileName, strFromU8(data))] }],
+        skipped: [],
+      };
+      break;
+    case 'zip':
+      upload = parseZip(data, limits);
+      break;
+    case 'enex':
+      upload = parseEnex(fileName, strFromU8(data), limits);
+      break;
+    case 'json':
+      upload = parseJsonExport(fileName, strFromU8(data), limits);
+      break;
+    default:
+      throw new ImportError('Unsupported file type, upload a .md, .txt, .zip, .enex or .json file');
+  }
+
+  // Notes that do not belong to a folder or notebook of their own go into a notepad named after the upload
+  return { ...upload, title: upload.title || baseName(fileName) };
+}
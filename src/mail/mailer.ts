@@ -0,0 +1,30 @@
+import { config } from '../config.js';
+import { createSmtpMailer } from './smtp.js';
+import { createOutboxMailer } from './outbox.js';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+// Anything that can deliver an email, so the API does not depend on a specific transport
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Creates the mailer selected by configuration.
+ * 'smtp' sends real emails, 'outbox' writes them to a directory or the console for development and tests.
+ * @returns {Mailer}
+ */
+export function createMailer(): Mailer {
+  if (config.mail.transport === 'smtp') {
+    return createSmtpMailer(config.mail.smtp, config.mail.from);
+  }
+
+  return createOutboxMailer(config.mail.outboxDir, config.mail.from);
+}
+
+export const mailer = createMailer();
@@ -0,0 +1,27 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import type { Mailer, MailMessage } from './mailer.js';
+
+/**
+ * Creates a mailer that never sends anything. Each message is written as a JSON file to the
+ * outbox directory if one is given, and printed to the console otherwise.
+ * @param {string | undefined} outboxDir - Directory to write messages to
+ * @param {string} from - The sender address
+ * @returns {Mailer}
+ */
+export function createOutboxMailer(outboxDir: string | undefined, from: string): Mailer {
+  return {
+    async send(message: MailMessage) {
+      const mail = { from, ...message, sentAt: new Date().toISOString() };
+
+      if (!outboxDir) {
+        console.info(`Email to ${mail.to}: ${mail.subject}\n${mail.text}`);
+        return;
+      }
+
+      await mkdir(outboxDir, { recursive: true });
+      const fileName = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`;
+      await writeFile(join(outboxDir, fileName), JSON.stringify(mail, null, 2));
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import nodemailer from 'nodemailer';
+import type { Mailer, MailMessage } from './mailer.js';
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+};
+
+/**
+ * Creates a mailer that delivers through an SMTP server
+ * @param {SmtpOptions} options - Connection settings for the SMTP server
+ * @param {string} from - The sender address
+ * @returns {Mailer}
+ */
+export function createSmtpMailer(options: SmtpOptions, from: string): Mailer {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+
+  return {
+    async send(message: MailMessage) {
+      await transport.sendMail({ from, ...message });
+    },
+  };
+}
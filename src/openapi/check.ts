@@ -0,0 +1,33 @@
+import app from '../app.js';
+import { generateOpenApiDocument } from './spec.js';
+
+// Compares the routes of the app with the OpenAPI document and fails if they differ,
+// run with `npm run check:openapi`
+
+const document = generateOpenApiDocument();
+
+const documented = new Set(
+  Object.entries(document.paths ?? {}).flatMap(([path, item]) =>
+    Object.keys(item).map((method) => `${method.toUpperCase()} ${path}`)
+  )
+);
+
+// Hono lists a route once per handler and middleware, and app.use() as ALL
+const routes = new Set(
+  app.routes
+    .filter((route) => route.method !== 'ALL')
+    .map((route) => `${route.method} ${route.path.replace(/:(\w+)/g, '{$1}')}`)
+);
+
+const missing = [...routes].filter((route) => !documented.has(route));
+const stale = [...documented].filter((route) => !routes.has(route));
+
+for (const route of missing) console.error(`Missing from the OpenAPI document: ${route}`);
+for (const route of stale) console.error(`Documented but not a route: ${route}`);
+
+if (missing.length > 0 || stale.length > 0) {
+  process.exit(1);
+}
+
+console.log(`All ${routes.size} routes are documented`);
+process.exit(0); // Open database clients and timers would otherwise keep the process alive
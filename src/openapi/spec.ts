@@ -0,0 +1,1162 @@
+import { OpenAPIRegistry, OpenApiGeneratorV31, extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import type { ResponseConfig, RouteConfig } from '@asteasolutions/zod-to-openapi';
+import { z } from 'zod';
+import { NotepadSchema, NotepadToCreateSchema, NotepadToUpdateSchema } from '../Database/notepad.db.js';
+import {
+  NoteFormatSchema,
+  NoteSchema,
+  NoteToCreateSchema,
+  NoteToUpdateSchema,
+  NoteReorderSchema,
+  NoteMoveSchema
+} from '../Database/notes.db.js';
+import {
+  EmailVerificationSchema,
+  UserQuerySchema,
+  UserRoleChangeSchema,
+  UserSchema,
+  UserSuspensionSchema,
+  UserToCreateSchema,
+  UserToDeleteSchema,
+  UserToUpdateSchema,
+} from '../Database/user.db.js';
+import { ForgotPasswordSchema, ResetPasswordSchema } from '../Database/passwordReset.db.js';
+import { RefreshRequestSchema } from '../Database/session.db.js';
+import { MemberRoleSchema, MemberToInviteSchema, MemberToUpdateSchema } from '../Database/member.db.js';
+import { SearchQuerySchema } from '../Database/search.db.js';
+import { RevisionQuerySchema, RevisionDiffQuerySchema } from '../Database/revision.db.js';
+import { ExportQuerySchema } from '../Database/export.db.js';
+import { ListQuerySchema, NoteListQuerySchema } from '../Database/listQuery.db.js';
+import { TrashItemTypeSchema } from '../Database/trash.db.js';
+import { AttachmentSchema } from '../Database/attachment.db.js';
+import {
+  DeliveryQuerySchema,
+  WebhookEventSchema,
+  WebhookToCreateSchema,
+  WebhookToUpdateSchema,
+} from '../Database/webhook.db.js';
+import { ActivityQuerySchema, AuditActionSchema, AuditQuerySchema, AuditTargetTypeSchema } from '../Database/audit.db.js';
+import {
+  ReportQuerySchema,
+  ReportResolutionSchema,
+  ReportStatusSchema,
+  ReportToCreateSchema,
+} from '../Database/report.db.js';
+
+// Adds .openapi() to every Zod schema, including the ones already created by the database modules
+extendZodWithOpenApi(z);
+
+const registry = new OpenAPIRegistry();
+
+registry.registerComponent('securitySchemes', 'bearerAuth', {
+  type: 'http',
+  scheme: 'bearer',
+  bearerFormat: 'JWT',
+  description: 'Access token from /auth/login or /auth/refresh',
+});
+
+// ==================================================
+// Shared schemas
+// ==================================================
+
+const ErrorSchema = registry.register(
+  'Error',
+  z.object({
+    error: z.string(),
+    code: z.string().optional().openapi({ description: 'Machine readable reason, e.g. token_expired or version_mismatch' }),
+    errors: z.unknown().optional().openapi({ description: 'Validation issues, as returned by Zod flatten()' }),
+  })
+);
+
+// A few endpoints answer with a message rather than an error
+const MessageSchema = registry.register('Message', z.object({ message: z.string() }));
+const SuccessSchema = registry.register('Success', z.object({ success: z.boolean() }));
+
+const PaginationSchema = registry.register(
+  'Pagination',
+  z.object({
+    page: z.number().int(),
+    limit: z.number().int(),
+    total: z.number().int(),
+    totalPages: z.number().int(),
+  })
+);
+
+const Notepad = registry.register('Notepad', NotepadSchema);
+const Note = registry.register('Note', NoteSchema.extend({
+  html: z.string().optional().openapi({ description: 'Sanitized HTML, only with ?render=html' }),
+}));
+const NoteFormat = registry.register('NoteFormat', NoteFormatSchema);
+const User = registry.register('User', UserSchema.omit({ password: true }));
+const Attachment = registry.register('Attachment', AttachmentSchema);
+
+const IdParams = z.object({ id: z.coerce.number().int() });
+const NotepadIdParams = z.object({ notepadId: z.coerce.number().int() });
+const RevisionParams = IdParams.extend({ rev: z.coerce.number().int() });
+const TagFilterQuery = z.object({
+  tag: z.array(z.string()).optional().openapi({ description: 'Repeat or separate with commas' }),
+  tagMatch: z.enum(['any', 'all']).optional(),
+});
+const RenderQuery = z.object({ render: z.literal('html').optional() });
+const ListQuery = ListQuerySchema.innerType().merge(TagFilterQuery);
+const NoteListQuery = NoteListQuerySchema.innerType().merge(TagFilterQuery);
+
+/**
+ * Builds the schema of a page from a list endpoint
+ * @param {z.ZodTypeAny} item - Schema of one row
+ * @param {boolean} cursors - Whether the endpoint hands out next and prev cursors
+ * @returns {z.ZodTypeAny}
+ */
+function page(item: z.ZodTypeAny, cursors: boolean) {
+  const schema = z.object({ data: z.array(item), pagination: PaginationSchema });
+  return cursors ? schema.extend({ next: z.string().nullable(), prev: z.string().nullable() }) : schema;
+}
+
+const Member = z.object({
+  userId: z.number(),
+  username: z.string(),
+  role: MemberRoleSchema,
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+const RevisionSummary = z.object({
+  revision: z.number(),
+  title: z.string(),
+  tags: z.array(z.string()),
+  createdAt: z.date(),
+  author: z.object({ id: z.number(), username: z.string() }).nullable(),
+});
+
+const Webhook = registry.register('Webhook', z.object({
+  id: z.number(),
+  url: z.string(),
+  events: z.array(WebhookEventSchema),
+  active: z.boolean(),
+  notepadId: z.number().nullable(),
+  ownerId: z.number(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+}));
+
+const WebhookDelivery = registry.register('WebhookDelivery', z.object({
+  id: z.number(),
+  webhookId: z.number(),
+  event: z.string(),
+  payload: z.unknown(),
+  status: z.enum(['pending', 'succeeded', 'failed']),
+  attempts: z.number(),
+  nextAttemptAt: z.date(),
+  lastAttemptAt: z.date().nullable(),
+  responseStatus: z.number().nullable(),
+  error: z.string().nullable(),
+  createdAt: z.date(),
+}));
+
+const AuditLog = registry.register('AuditLog', z.object({
+  id: z.number(),
+  action: AuditActionSchema,
+  actorId: z.number().nullable(),
+  targetType: AuditTargetTypeSchema,
+  targetId: z.string().nullable(),
+  ip: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  createdAt: z.date(),
+}));
+
+// A page of the audit log, pass next as ?before= to get the following page
+const auditPage = z.object({
+  data: z.array(AuditLog),
+  next: z.number().nullable(),
+});
+
+const Report = registry.register('Report', z.object({
+  id: z.number(),
+  reason: ReportToCreateSchema.shape.reason,
+  details: z.string().nullable(),
+  status: ReportStatusSchema,
+  resolution: z.string().nullable(),
+  createdAt: z.date(),
+  resolvedAt: z.date().nullable(),
+  notepadId: z.number(),
+  reporterId: z.number().nullable(),
+  resolvedById: z.number().nullable(),
+  notepad: z.object({
+    id: z.number(),
+    title: z.string(),
+    isPublic: z.boolean(),
+    ownerId: z.number(),
+    deletedAt: z.date().nullable(),
+  }),
+  reporter: z.object({ id: z.number(), username: z.string() }).nullable(),
+  resolvedBy: z.object({ id: z.number(), username: z.string() }).nullable(),
+}));
+
+const Tokens = z.object({
+  token: z.string(),
+  refreshToken: z.string(),
+  expiresIn: z.number().openapi({ description: 'Seconds until the access token expires' }),
+});
+
+// ==================================================
+// Route helpers
+// ==================================================
+
+const bearer: Array<Record<string, Array<string>>> = [{ bearerAuth: [] }];
+const optionalBearer: Array<Record<string, Array<string>>> = [{}, { bearerAuth: [] }]; // Anonymous callers see public notepads
+
+const json = (schema: z.ZodTypeAny, description: string): ResponseConfig => ({
+  description,
+  content: { 'application/json': { schema } },
+});
+
+const body = (schema: z.ZodTypeAny) => ({ required: true, content: { 'application/json': { schema } } });
+
+const errorDescriptions = {
+  400: 'Invalid request',
+  401: 'Missing, expired or revoked access token',
+  403: 'Not allowed',
+  404: 'Not found',
+  409: 'Conflicts with the current state',
+  412: 'If-Match does not match the current version, the body holds the current copy',
+  413: 'Upload too large',
+  415: 'File type not allowed, or the file is not of the type it claims',
+  416: 'Range not satisfiable, Content-Range holds the size of the file',
+  429: 'Rate limited, see Retry-After',
+  500: 'Internal Server Error',
+} as const;
+
+/**
+ * Builds the error responses of a route, every route can answer 500
+ * @param {Array<keyof typeof errorDescriptions>} statuses - The error statuses the route uses
+ * @returns {Record<string, ResponseConfig>}
+ */
+function errors(...statuses: Array<keyof typeof errorDescriptions>): Record<string, ResponseConfig> {
+  const responses: Record<string, ResponseConfig> = {};
+  for (const status of [...statuses, 500] as const) {
+    const schema = status === 412 ? ErrorSchema.extend({ current: z.unknown() }) : ErrorSchema;
+    responses[status] = json(schema, errorDescriptions[status]);
+  }
+  return responses;
+}
+
+const route = (config: RouteConfig) => registry.registerPath(config);
+
+const IfMatchHeader = z.object({
+  'if-match': z.string().optional().openapi({ description: 'ETag from a previous read, e.g. "v3"' }),
+});
+
+// ==================================================
+// Homepage
+// ==================================================
+
+route({
+  method: 'get',
+  path: '/',
+  tags: ['Meta'],
+  summary: 'Welcome message with the main endpoints',
+  responses: { 200: json(z.object({ message: z.string(), endpoints: z.record(z.string()) }), 'Welcome message') },
+});
+
+route({
+  method: 'get',
+  path: '/openapi.json',
+  tags: ['Meta'],
+  summary: 'This document',
+  responses: { 200: json(z.record(z.unknown()), 'OpenAPI 3.1 document') },
+});
+
+route({
+  method: 'get',
+  path: '/docs',
+  tags: ['Meta'],
+  summary: 'Interactive documentation',
+  responses: { 200: { description: 'Swagger UI', content: { 'text/html': { schema: z.string() } } } },
+});
+
+// ==================================================
+// Notepads
+// ==================================================
+
+route({
+  method: 'post',
+  path: '/notepads',
+  tags: ['Notepads'],
+  summary: 'Create a notepad',
+  security: bearer,
+  request: { body: body(NotepadToCreateSchema.omit({ ownerId: true })) },
+  responses: { 201: json(Notepad, 'The new notepad'), ...errors(400, 401, 403) },
+});
+
+route({
+  method: 'get',
+  path: '/user/notepads',
+  tags: ['Notepads'],
+  summary: 'List the notepads of the caller',
+  security: bearer,
+  request: { query: ListQuery },
+  responses: { 200: json(page(Notepad, true), 'A page of notepads'), ...errors(400, 401) },
+});
+
+route({
+  method: 'get',
+  path: '/user/shared-notepads',
+  tags: ['Notepads'],
+  summary: 'List the notepads shared with the caller',
+  security: bearer,
+  request: { query: ListQuerySchema.innerType().pick({ limit: true, page: true }) },
+  responses: { 200: json(page(Notepad.extend({ role: MemberRoleSchema }), false), 'A page of notepads'), ...errors(400, 401) },
+});
+
+route({
+  method: 'get',
+  path: '/public/notepads',
+  tags: ['Notepads'],
+  summary: 'List public notepads',
+  request: { query: ListQuery },
+  responses: { 200: json(page(Notepad, true), 'A page of notepads'), ...errors(400) },
+});
+
+route({
+  method: 'get',
+  path: '/notepads/{id}',
+  tags: ['Notepads'],
+  summary: 'Fetch a notepad with its notes',
+  security: optionalBearer,
+  request: { params: IdParams, query: RenderQuery },
+  responses: {
+    200: {
+      ...json(Notepad.extend({ notes: z.array(Note) }), 'The notepad'),
+      headers: z.object({ ETag: z.string() }),
+    },
+    ...errors(400, 401, 404),
+  },
+});
+
+route({
+  method: 'put',
+  path: '/notepads/{id}',
+  tags: ['Notepads'],
+  summary: 'Update a notepad',
+  security: bearer,
+  request: { params: IdParams, headers: IfMatchHeader, body: body(NotepadToUpdateSchema) },
+  responses: { 200: json(Notepad, 'The updated notepad'), ...errors(400, 401, 403, 404, 412) },
+});
+
+route({
+  method: 'delete',
+  path: '/notepads/{id}',
+  tags: ['Notepads'],
+  summary: 'Move a notepad to the trash',
+  security: bearer,
+  request: { params: IdParams, headers: IfMatchHeader },
+  responses: { 200: json(MessageSchema, 'Moved to the trash'), ...errors(400, 401, 403, 404, 412) },
+});
+
+route({
+  method: 'post',
+  path: '/notepads/import',
+  tags: ['Notepads'],
+  summary: 'Import notes from Markdown, a zip archive, ENEX or a JSON export',
+  security: bearer,
+  request: {
+    body: {
+      required: true,
+      content: {
+        'multipart/form-data': {
+          schema: z.object({
+            file: z.string().openapi({ format: 'binary' }),
+            notepadId: z.string().optional().openapi({ description: 'Existing notepad for loose notes' }),
+          }),
+        },
+      },
+    },
+  },
+  responses: {
+    201: json(z.object({ notepads: z.number(), notes: z.number(), skipped: z.number(), items: z.array(z.unknown()) }), 'Import report'),
+    200: json(z.object({ notepads: z.number(), notes: z.number(), skipped: z.number(), items: z.array(z.unknown()) }), 'Nothing was imported'),
+    ...errors(400, 401, 403, 404, 413),
+  },
+});
+
+route({
+  method: 'get',
+  path: '/notepads/{id}/export',
+  tags: ['Notepads'],
+  summary: 'Download a notepad as a Markdown archive, JSON or HTML',
+  security: optionalBearer,
+  request: { params: IdParams, query: ExportQuerySchema },
+  responses: {
+    200: {
+      description: 'The export, as an attachment',
+      content: {
+        'application/zip': { schema: z.string().openapi({ format: 'binary' }) },
+        'application/json': { schema: z.unknown() },
+        'text/html': { schema: z.string() },
+      },
+    },
+    ...errors(400, 401, 404),
+  },
+});
+
+route({
+  method: 'post',
+  path: '/notepads/{id}/report',
+  tags: ['Notepads'],
+  summary: 'Report a notepad to the moderators',
+  security: bearer,
+  request: { params: IdParams, body: body(ReportToCreateSchema) },
+  responses: {
+    201: json(Report.pick({ id: true, reason: true, status: true, createdAt: true }), 'The report was filed'),
+    ...errors(400, 401, 404, 409),
+  },
+});
+
+route({
+  method: 'get',
+  path: '/notepads/{id}/events',
+  tags: ['Notepads'],
+  summary: 'Stream changes to a notepad as Server-Sent Events',
+  description: 'Events: ' + ['note.created', 'note.updated', 'note.deleted', 'note.moved', 'notepad.updated', 'notepad.deleted'].join(', ') +
+    '. Send Last-Event-ID to resume, a reset event means the missed events are gone and the notepad should be reloaded.',
+  security: optionalBearer,
+  request: {
+    params: IdParams,
+    query: z.object({
+      access_token: z.string().optional().openapi({ description: 'For clients that cannot set headers, like EventSource' }),
+      lastEventId: z.string().optional(),
+    }),
+  },
+  responses: {
+    200: { description: 'Event stream', content: { 'text/event-stream': { schema: z.string() } } },
+    ...errors(400, 401, 404),
+  },
+});
+
+// ==================================================
+// Members
+// ==================================================
+
+route({
+  method: 'get',
+  path: '/notepads/{id}/members',
+  tags: ['Members'],
+  summary: 'List the members of a notepad',
+  security: bearer,
+  request: { params: IdParams },
+  responses: { 200: json(z.object({ data: z.array(Member) }), 'The members'), ...errors(400, 401, 404) },
+});
+
+route({
+  method: 'post',
+  path: '/notepads/{id}/members',
+  tags: ['Members'],
+  summary: 'Invite a member by username or email',
+  security: bearer,
+  request: { params: IdParams, body: body(MemberToInviteSchema) },
+  responses: { 201: json(Member, 'The new member'), ...errors(400, 401, 403, 404) },
+});
+
+route({
+  method: 'patch',
+  path: '/notepads/{id}/members/{userId}',
+  tags: ['Members'],
+  summary: 'Change the role of a member',
+  security: bearer,
+  request: { params: IdParams.extend({ userId: z.coerce.number().int() }), body: body(MemberToUpdateSchema) },
+  responses: { 200: json(Member, 'The member'), ...errors(400, 401, 403, 404) },
+});
+
+route({
+  method: 'delete',
+  path: '/notepads/{id}/members/{userId}',
+  tags: ['Members'],
+  summary: 'Remove a member, or leave a notepad',
+  security: bearer,
+  request: { params: IdParams.extend({ userId: z.coerce.number().int() }) },
+  responses: { 200: json(SuccessSchema, 'Removed'), ...errors(400, 401, 403, 404) },
+});
+
+// ==================================================
+// Notes
+// ==================================================
+
+route({
+  method: 'get',
+  path: '/notepads/{notepadId}/notes',
+  tags: ['Notes'],
+  summary: 'List the notes of a notepad',
+  description: 'Pinned notes come first, then the others in the order they were arranged in unless another sort is given.',
+  security: optionalBearer,
+  request: { params: NotepadIdParams, query: NoteListQuery.merge(RenderQuery) },
+  responses: { 200: json(page(Note, true), 'A page of notes'), ...errors(400, 401, 404) },
+});
+
+route({
+  method: 'post',
+  path: '/notepads/{notepadId}/notes',
+  tags: ['Notes'],
+  summary: 'Create a note',
+  security: bearer,
+  request: { params: NotepadIdParams, body: body(NoteToCreateSchema.omit({ notepadId: true })) },
+  responses: { 201: json(Note, 'The new note'), ...errors(400, 401, 403, 404) },
+});
+
+route({
+  method: 'get',
+  path: '/notes/{id}',
+  tags: ['Notes'],
+  summary: 'Fetch a note',
+  security: optionalBearer,
+  request: { params: IdParams, query: RenderQuery },
+  responses: {
+    200: { ...json(Note, 'The note'), headers: z.object({ ETag: z.string() }) },
+    ...errors(400, 401, 404),
+  },
+});
+
+route({
+  method: 'patch',
+  path: '/notes/{id}',
+  tags: ['Notes'],
+  summary: 'Update a note',
+  security: bearer,
+  request: { params: IdParams, headers: IfMatchHeader, body: body(NoteToUpdateSchema) },
+  responses: { 200: json(Note, 'The updated note'), ...errors(400, 401, 403, 404, 412) },
+});
+
+route({
+  method: 'delete',
+  path: '/notes/{id}',
+  tags: ['Notes'],
+  summary: 'Move a note to the trash',
+  security: bearer,
+  request: { params: IdParams, headers: IfMatchHeader },
+  responses: { 200: json(SuccessSchema, 'Moved to the trash'), ...errors(400, 401, 403, 404, 412) },
+});
+
+route({
+  method: 'post',
+  path: '/notes/{id}/reorder',
+  tags: ['Notes'],
+  summary: 'Move a note within its notepad',
+  description: 'Puts the note after another note of the same notepad, or at the top when after is null.',
+  security: bearer,
+  request: { params: IdParams, headers: IfMatchHeader, body: body(NoteReorderSchema) },
+  responses: { 200: json(Note, 'The note at its new position'), ...errors(400, 401, 403, 404, 409, 412) },
+});
+
+route({
+  method: 'post',
+  path: '/notes/{id}/move',
+  tags: ['Notes'],
+  summary: 'Move a note to another notepad',
+  description: 'The note goes to the top of a notepad the caller can write to, with its revisions and attachments.',
+  security: bearer,
+  request: { params: IdParams, headers: IfMatchHeader, body: body(NoteMoveSchema) },
+  responses: { 200: json(Note, 'The moved note'), ...errors(400, 401, 403, 404, 412) },
+});
+
+// ==================================================
+// Attachments
+// ==================================================
+
+route({
+  method: 'get',
+  path: '/notes/{id}/attachments',
+  tags: ['Attachments'],
+  summary: 'List the attachments of a note',
+  security: optionalBearer,
+  request: { params: IdParams },
+  responses: { 200: json(z.array(Attachment), 'The attachments, oldest first'), ...errors(400, 401, 404) },
+});
+
+route({
+  method: 'post',
+  path: '/notes/{id}/attachments',
+  tags: ['Attachments'],
+  summary: 'Upload a file to a note',
+  description: 'Size and type limits are set by ATTACHMENT_MAX_MB and ATTACHMENT_ALLOWED_TYPES.',
+  security: bearer,
+  request: {
+    params: IdParams,
+    body: {
+      required: true,
+      content: { 'multipart/form-data': { schema: z.object({ file: z.string().openapi({ format: 'binary' }) }) } },
+    },
+  },
+  responses: { 201: json(Attachment, 'The new attachment'), ...errors(400, 401, 403, 404, 409, 413, 415) },
+});
+
+route({
+  method: 'get',
+  path: '/attachments/{id}',
+  tags: ['Attachments'],
+  summary: 'Download an attachment, or part of it with a Range header',
+  security: optionalBearer,
+  request: {
+    params: IdParams,
+    headers: z.object({ range: z.string().optional().openapi({ description: 'One byte range, e.g. bytes=0-1023' }) }),
+  },
+  responses: {
+    200: { description: 'The file', content: { '*/*': { schema: z.string().openapi({ format: 'binary' }) } } },
+    206: { description: 'The requested range', content: { '*/*': { schema: z.string().openapi({ format: 'binary' }) } } },
+    ...errors(400, 401, 404, 416),
+  },
+});
+
+route({
+  method: 'delete',
+  path: '/attachments/{id}',
+  tags: ['Attachments'],
+  summary: 'Delete an attachment',
+  security: bearer,
+  request: { params: IdParams },
+  responses: { 200: json(MessageSchema, 'Attachment deleted'), ...errors(400, 401, 403, 404) },
+});
+
+// ==================================================
+// Revisions
+// ==================================================
+
+route({
+  method: 'get',
+  path: '/notes/{id}/revisions',
+  tags: ['Revisions'],
+  summary: 'List the revisions of a note, newest first',
+  security: optionalBearer,
+  request: { params: IdParams, query: RevisionQuerySchema },
+  responses: { 200: json(page(RevisionSummary, false), 'A page of revisions'), ...errors(400, 401, 404) },
+});
+
+route({
+  method: 'get',
+  path: '/notes/{id}/revisions/{rev}',
+  tags: ['Revisions'],
+  summary: 'Fetch a revision',
+  security: optionalBearer,
+  request: { params: RevisionParams },
+  responses: {
+    200: json(RevisionSummary.extend({ content: z.string(), format: NoteFormat }), 'The revision'),
+    ...errors(400, 401, 404),
+  },
+});
+
+route({
+  method: 'get',
+  path: '/notes/{id}/diff',
+  tags: ['Revisions'],
+  summary: 'Compare two revisions line by line',
+  security: optionalBearer,
+  request: { params: IdParams, query: RevisionDiffQuerySchema },
+  responses: {
+    200: json(z.object({
+      from: z.number(),
+      to: z.number(),
+      title: z.object({ from: z.string(), to: z.string() }).nullable(),
+      tags: z.object({ added: z.array(z.string()), removed: z.array(z.string()) }),
+      lines: z.array(z.object({
+        type: z.enum(['equal', 'added', 'removed']),
+        text: z.string(),
+        oldLine: z.number().optional(),
+        newLine: z.number().optional(),
+      })),
+    }), 'The differences'),
+    ...errors(400, 401, 404),
+  },
+});
+
+route({
+  method: 'post',
+  path: '/notes/{id}/revisions/{rev}/restore',
+  tags: ['Revisions'],
+  summary: 'Restore a revision as the newest one',
+  security: bearer,
+  request: { params: RevisionParams },
+  responses: { 200: json(Note, 'The restored note'), ...errors(400, 401, 403, 404) },
+});
+
+// ==================================================
+// Webhooks
+// ==================================================
+
+route({
+  method: 'get',
+  path: '/webhooks',
+  tags: ['Webhooks'],
+  summary: 'List the webhooks of the caller',
+  security: bearer,
+  responses: { 200: json(z.object({ data: z.array(Webhook) }), 'The webhooks'), ...errors(401) },
+});
+
+route({
+  method: 'post',
+  path: '/webhooks',
+  tags: ['Webhooks'],
+  summary: 'Create a webhook',
+  description: 'Deliveries are signed with X-Notepad-Signature: t=<unix time>,v1=<HMAC-SHA256 of "t.body" with the secret>. ' +
+    'The URL must resolve to a public address, loopback, private and link-local addresses are refused.',
+  security: bearer,
+  request: { body: body(WebhookToCreateSchema) },
+  responses: {
+    201: json(Webhook.extend({ secret: z.string() }), 'The webhook, the only response that includes its secret'),
+    ...errors(400, 401, 404),
+  },
+});
+
+route({
+  method: 'get',
+  path: '/webhooks/{id}',
+  tags: ['Webhooks'],
+  summary: 'Fetch a webhook',
+  security: bearer,
+  request: { params: IdParams },
+  responses: { 200: json(Webhook, 'The webhook'), ...errors(401, 404) },
+});
+
+route({
+  method: 'patch',
+  path: '/webhooks/{id}',
+  tags: ['Webhooks'],
+  summary: 'Update a webhook',
+  security: bearer,
+  request: { params: IdParams, body: body(WebhookToUpdateSchema) },
+  responses: { 200: json(Webhook, 'The webhook'), ...errors(400, 401, 404) },
+});
+
+route({
+  method: 'delete',
+  path: '/webhooks/{id}',
+  tags: ['Webhooks'],
+  summary: 'Delete a webhook and its delivery log',
+  security: bearer,
+  request: { params: IdParams },
+  responses: { 200: json(MessageSchema, 'Deleted'), ...errors(401, 404) },
+});
+
+route({
+  method: 'get',
+  path: '/webhooks/{id}/deliveries',
+  tags: ['Webhooks'],
+  summary: 'List the latest deliveries of a webhook',
+  security: bearer,
+  request: { params: IdParams, query: DeliveryQuerySchema },
+  responses: { 200: json(z.object({ data: z.array(WebhookDelivery) }), 'The deliveries'), ...errors(400, 401, 404) },
+});
+
+route({
+  method: 'post',
+  path: '/webhooks/{id}/test',
+  tags: ['Webhooks'],
+  summary: 'Send a webhook.test event right away',
+  security: bearer,
+  request: { params: IdParams },
+  responses: { 202: json(WebhookDelivery, 'The delivery after its first attempt'), ...errors(401, 404) },
+});
+
+registry.registerWebhook({
+  method: 'post',
+  path: 'notepadEvent',
+  summary: 'Sent to a webhook URL for every event it subscribes to',
+  request: {
+    headers: z.object({
+      'X-Notepad-Event': z.string(),
+      'X-Notepad-Delivery': z.string(),
+      'X-Notepad-Signature': z.string(),
+    }),
+    body: body(z.object({
+      id: z.number().openapi({ description: 'Delivery ID, the same on retries' }),
+      event: z.string(),
+      notepadId: z.number().optional(),
+      occurredAt: z.string(),
+      data: z.unknown(),
+    })),
+  },
+  responses: { 200: { description: 'Any 2xx status marks the delivery as succeeded, anything else is retried' } },
+});
+
+// ==================================================
+// Trash
+// ==================================================
+
+const TrashParams = z.object({ type: TrashItemTypeSchema, id: z.coerce.number().int() });
+
+route({
+  method: 'get',
+  path: '/trash',
+  tags: ['Trash'],
+  summary: 'List the trash of the caller',
+  security: bearer,
+  responses: {
+    200: json(z.object({
+      data: z.array(z.object({
+        type: TrashItemTypeSchema,
+        id: z.number(),
+        notepadId: z.number(),
+        title: z.string(),
+        tags: z.array(z.string()),
+        deletedAt: z.date(),
+        purgeAt: z.date(),
+      })),
+      retentionDays: z.number(),
+    }), 'The trash'),
+    ...errors(401),
+  },
+});
+
+route({
+  method: 'post',
+  path: '/trash/{type}/{id}/restore',
+  tags: ['Trash'],
+  summary: 'Take an item out of the trash',
+  security: bearer,
+  request: { params: TrashParams },
+  responses: { 200: json(z.object({ data: z.union([Notepad, Note]) }), 'The restored item'), ...errors(400, 401, 403, 404, 409) },
+});
+
+route({
+  method: 'delete',
+  path: '/trash/{type}/{id}',
+  tags: ['Trash'],
+  summary: 'Permanently delete an item in the trash',
+  security: bearer,
+  request: { params: TrashParams },
+  responses: { 200: json(MessageSchema, 'Deleted'), ...errors(400, 401, 403, 404) },
+});
+
+// ==================================================
+// Tags and Search
+// ==================================================
+
+route({
+  method: 'get',
+  path: '/tags',
+  tags: ['Tags'],
+  summary: 'List the tags the caller uses, with counts',
+  security: bearer,
+  responses: {
+    200: json(z.object({
+      data: z.array(z.object({ name: z.string(), notes: z.number(), notepads: z.number(), total: z.number() })),
+    }), 'The tags'),
+    ...errors(401),
+  },
+});
+
+route({
+  method: 'get',
+  path: '/search',
+  tags: ['Search'],
+  summary: 'Full text search in the notes and notepads the caller can read',
+  security: optionalBearer,
+  request: { query: SearchQuerySchema },
+  responses: {
+    200: json(page(z.object({
+      type: z.enum(['note', 'notepad']),
+      id: z.number(),
+      notepadId: z.number(),
+      title: z.string(),
+      snippet: z.string().openapi({ description: 'Matches are wrapped in <mark>' }),
+      rank: z.number(),
+      updatedAt: z.date(),
+    }), false), 'A page of results'),
+    ...errors(400, 401),
+  },
+});
+
+// ==================================================
+// Users
+// ==================================================
+
+route({
+  method: 'post',
+  path: '/users',
+  tags: ['Users'],
+  summary: 'Sign up',
+  request: { body: body(UserToCreateSchema) },
+  responses: { 201: json(User, 'The new user'), ...errors(400, 429) },
+});
+
+route({
+  method: 'get',
+  path: '/users/me',
+  tags: ['Users'],
+  summary: 'Fetch the caller',
+  security: bearer,
+  responses: { 200: json(User, 'The caller'), ...errors(401, 404) },
+});
+
+route({
+  method: 'get',
+  path: '/users/me/activity',
+  tags: ['Users'],
+  summary: 'Audit log entries of the caller: logins, failed logins against the account, deletions and visibility changes',
+  security: bearer,
+  request: { query: ActivityQuerySchema },
+  responses: { 200: json(auditPage, 'A page of entries, newest first'), ...errors(400, 401) },
+});
+
+route({
+  method: 'patch',
+  path: '/users/me',
+  tags: ['Users'],
+  summary: 'Update the caller, changing email or password needs the current password',
+  security: bearer,
+  request: { body: body(UserToUpdateSchema) },
+  responses: {
+    200: json(z.object({ user: User }).merge(Tokens.partial()), 'The updated user, with new tokens when the password changed'),
+    ...errors(400, 401, 403, 404),
+  },
+});
+
+route({
+  method: 'delete',
+  path: '/users/me',
+  tags: ['Users'],
+  summary: 'Delete the caller',
+  security: bearer,
+  request: { body: body(UserToDeleteSchema) },
+  responses: { 200: json(SuccessSchema, 'Deleted'), ...errors(400, 401, 403, 404) },
+});
+
+// ==================================================
+// Auth
+// ==================================================
+
+route({
+  method: 'post',
+  path: '/auth/login',
+  tags: ['Auth'],
+  summary: 'Log in with email and password',
+  request: { body: body(z.object({ email: z.string(), password: z.string() })) },
+  responses: {
+    200: json(Tokens.extend({ user: z.object({ id: z.number(), username: z.string(), email: z.string() }) }), 'Logged in'),
+    ...errors(400, 401, 403, 429),
+  },
+});
+
+route({
+  method: 'post',
+  path: '/auth/refresh',
+  tags: ['Auth'],
+  summary: 'Exchange a refresh token for new tokens',
+  request: { body: body(RefreshRequestSchema) },
+  responses: { 200: json(Tokens, 'New tokens, the old refresh token stops working'), ...errors(400, 401, 429) },
+});
+
+route({
+  method: 'post',
+  path: '/auth/logout',
+  tags: ['Auth'],
+  summary: 'End the current session',
+  security: bearer,
+  responses: { 200: json(SuccessSchema, 'Logged out'), ...errors(401) },
+});
+
+route({
+  method: 'get',
+  path: '/auth/sessions',
+  tags: ['Auth'],
+  summary: 'List the active sessions of the caller',
+  security: bearer,
+  responses: {
+    200: json(z.object({
+      data: z.array(z.object({
+        id: z.string(),
+        userAgent: z.string().nullable(),
+        ip: z.string().nullable(),
+        createdAt: z.date(),
+        lastUsedAt: z.date(),
+        expiresAt: z.date(),
+        current: z.boolean(),
+      })),
+    }), 'The sessions'),
+    ...errors(401),
+  },
+});
+
+route({
+  method: 'delete',
+  path: '/auth/sessions/{id}',
+  tags: ['Auth'],
+  summary: 'Revoke a session',
+  security: bearer,
+  request: { params: z.object({ id: z.string() }) },
+  responses: { 200: json(SuccessSchema, 'Revoked'), ...errors(401, 404) },
+});
+
+route({
+  method: 'post',
+  path: '/auth/verify-email',
+  tags: ['Auth'],
+  summary: 'Verify an email with the token from the verification link',
+  request: { body: body(EmailVerificationSchema) },
+  responses: { 200: json(MessageSchema, 'Verified'), ...errors(400, 429) },
+});
+
+route({
+  method: 'post',
+  path: '/auth/verify-email/resend',
+  tags: ['Auth'],
+  summary: 'Send the verification email again',
+  security: bearer,
+  responses: { 200: json(MessageSchema, 'Sent'), ...errors(400, 401, 429) },
+});
+
+route({
+  method: 'post',
+  path: '/auth/forgot-password',
+  tags: ['Auth'],
+  summary: 'Request a password reset link',
+  request: { body: body(ForgotPasswordSchema) },
+  responses: { 200: json(MessageSchema, 'Sent if the account exists'), ...errors(400, 429) },
+});
+
+route({
+  method: 'post',
+  path: '/auth/reset-password',
+  tags: ['Auth'],
+  summary: 'Set a new password with a reset token',
+  request: { body: body(ResetPasswordSchema) },
+  responses: { 200: json(MessageSchema, 'Password changed'), ...errors(400, 429) },
+});
+
+// ==================================================
+// Admin
+// ==================================================
+
+route({
+  method: 'get',
+  path: '/admin/audit',
+  tags: ['Admin'],
+  summary: 'Search the audit log, admins only',
+  security: bearer,
+  request: { query: AuditQuerySchema },
+  responses: {
+    200: json(auditPage.extend({ retentionDays: z.number() }), 'A page of entries, newest first'),
+    ...errors(400, 401, 403),
+  },
+});
+
+route({
+  method: 'get',
+  path: '/admin/users',
+  tags: ['Admin'],
+  summary: 'List and search users, moderators and admins only',
+  security: bearer,
+  request: { query: UserQuerySchema },
+  responses: { 200: json(page(User, false), 'A page of users, newest first'), ...errors(400, 401, 403) },
+});
+
+route({
+  method: 'post',
+  path: '/admin/users/{id}/suspend',
+  tags: ['Admin'],
+  summary: 'Suspend a user with a lower role and sign them out everywhere',
+  security: bearer,
+  request: { params: IdParams, body: body(UserSuspensionSchema) },
+  responses: { 200: json(User, 'The suspended user'), ...errors(400, 401, 403, 404, 409) },
+});
+
+route({
+  method: 'post',
+  path: '/admin/users/{id}/unsuspend',
+  tags: ['Admin'],
+  summary: 'Lift the suspension of a user with a lower role',
+  security: bearer,
+  request: { params: IdParams },
+  responses: { 200: json(User, 'The user, who can log in again'), ...errors(400, 401, 403, 404, 409) },
+});
+
+route({
+  method: 'patch',
+  path: '/admin/users/{id}/role',
+  tags: ['Admin'],
+  summary: "Change another user's role, admins only",
+  security: bearer,
+  request: { params: IdParams, body: body(UserRoleChangeSchema) },
+  responses: { 200: json(User, 'The user with the new role'), ...errors(400, 401, 403, 404) },
+});
+
+route({
+  method: 'delete',
+  path: '/admin/users/{id}',
+  tags: ['Admin'],
+  summary: 'Delete a user with a lower role and everything they own, admins only',
+  security: bearer,
+  request: { params: IdParams },
+  responses: { 200: json(MessageSchema, 'User deleted'), ...errors(400, 401, 403, 404) },
+});
+
+route({
+  method: 'post',
+  path: '/admin/notepads/{id}/unpublish',
+  tags: ['Admin'],
+  summary: 'Make any notepad private',
+  security: bearer,
+  request: { params: IdParams },
+  responses: { 200: json(Notepad, 'The notepad, now private'), ...errors(400, 401, 403, 404) },
+});
+
+route({
+  method: 'delete',
+  path: '/admin/notepads/{id}',
+  tags: ['Admin'],
+  summary: 'Permanently delete any notepad, skipping the trash',
+  security: bearer,
+  request: { params: IdParams },
+  responses: { 200: json(MessageSchema, 'Permanently deleted'), ...errors(400, 401, 403, 404) },
+});
+
+route({
+  method: 'get',
+  path: '/admin/reports',
+  tags: ['Admin'],
+  summary: 'The moderation queue, oldest first',
+  security: bearer,
+  request: { query: ReportQuerySchema },
+  responses: {
+    200: json(z.object({ data: z.array(Report), next: z.number().nullable() }), 'A page of reports, pass next as ?after='),
+    ...errors(400, 401, 403),
+  },
+});
+
+route({
+  method: 'post',
+  path: '/admin/reports/{id}/resolve',
+  tags: ['Admin'],
+  summary: 'Close a report after acting on it',
+  security: bearer,
+  request: { params: IdParams, body: body(ReportResolutionSchema) },
+  responses: { 200: json(Report, 'The resolved report'), ...errors(400, 401, 403, 404) },
+});
+
+route({
+  method: 'post',
+  path: '/admin/reports/{id}/dismiss',
+  tags: ['Admin'],
+  summary: 'Close a report without acting on it',
+  security: bearer,
+  request: { params: IdParams, body: body(ReportResolutionSchema) },
+  responses: { 200: json(Report, 'The dismissed report'), ...errors(400, 401, 403, 404) },
+});
+
+// ==================================================
+// Document
+// ==================================================
+
+/**
+ * Generates the OpenAPI document from everything registered above
+ * @returns {ReturnType<OpenApiGeneratorV31['generateDocument']>}
+ */
+export function generateOpenApiDocument() {
+  return new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: '3.1.0',
+    info: {
+      title: 'Notepad API',
+      version: '1.0.0',
+      description: 'Notepads and notes with sharing, revisions, search and webhooks.',
+    },
+  });
+}
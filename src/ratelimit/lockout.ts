@@ -0,0 +1,54 @@
+import { config } from '../config.js';
+import { rateLimitStore } from './store.js';
+import type { RateLimitStore } from './store.js';
+
+/**
+ * Progressive lockout for repeated failed logins to one account.
+ * After `threshold` failures within the window every further failure locks the account for twice as long,
+ * starting at `baseSeconds` and capped at `maxSeconds`. A successful login clears the count.
+ */
+export function createLoginLockout(store: RateLimitStore = rateLimitStore) {
+  const { threshold, baseSeconds, maxSeconds, windowMinutes } = config.rateLimit.lockout;
+  const failuresKey = (account: string) => `login-failures:${account.toLowerCase()}`;
+  const lockKey = (account: string) => `login-lock:${account.toLowerCase()}`;
+
+  return {
+    /**
+     * Checks if an account is locked
+     * @param {string} account - The email the login was attempted with
+     * @returns {Promise<number>} - Seconds until the lock ends, 0 when not locked
+     */
+    async lockedFor(account: string): Promise<number> {
+      const lockedUntil = await store.get(lockKey(account));
+      return lockedUntil ? Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000)) : 0;
+    },
+
+    /**
+     * Records a failed login and locks the account when there have been too many
+     * @param {string} account - The email the login was attempted with
+     * @returns {Promise<number>} - Seconds the account is now locked for, 0 when not locked
+     */
+    async recordFailure(account: string): Promise<number> {
+      const failures = await store.increment(failuresKey(account), windowMinutes * 60 * 1000);
+      if (failures < threshold) {
+        return 0;
+      }
+
+      const seconds = Math.min(maxSeconds, baseSeconds * 2 ** (failures - threshold));
+      await store.set(lockKey(account), Date.now() + seconds * 1000, seconds * 1000);
+      return seconds;
+    },
+
+    /**
+     * Clears the failures of an account after a successful login
+     * @param {string} account - The email the login was made with
+     * @returns {Promise<void>}
+     */
+    async clear(account: string): Promise<void> {
+      await store.delete(failuresKey(account));
+      await store.delete(lockKey(account));
+    },
+  };
+}
+
+export const loginLockout = createLoginLockout();
@@ -0,0 +1,79 @@
+import type { Bucket, ConsumeResult, RateLimitStore } from './store.js';
+
+type Entry = {
+  value: number;
+  updatedAt: number;
+  expiresAt: number;
+};
+
+// How often expired entries are dropped
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Creates a store that keeps counts in memory, they are lost on restart and not shared between processes
+ * @returns {RateLimitStore}
+ */
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, Entry>();
+
+  const read = (key: string, now: number) => {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt <= now) {
+      entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of entries) {
+      if (entry.expiresAt <= now) entries.delete(key);
+    }
+  }, SWEEP_INTERVAL_MS).unref();
+
+  return {
+    async consume(key: string, bucket: Bucket): Promise<ConsumeResult> {
+      const now = Date.now();
+      const refillPerMs = bucket.refillPerMinute / 60_000;
+      const entry = read(key, now);
+
+      let tokens = entry
+        ? Math.min(bucket.capacity, entry.value + (now - entry.updatedAt) * refillPerMs)
+        : bucket.capacity;
+
+      const allowed = tokens >= 1;
+      if (allowed) tokens -= 1;
+
+      // The entry can be dropped once the bucket would be full again
+      entries.set(key, { value: tokens, updatedAt: now, expiresAt: now + (bucket.capacity - tokens) / refillPerMs });
+
+      return {
+        allowed,
+        remaining: Math.floor(tokens),
+        retryAfterSeconds: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs / 1000),
+      };
+    },
+
+    async increment(key: string, ttlMs: number): Promise<number> {
+      const now = Date.now();
+      const entry = read(key, now);
+      const value = (entry?.value ?? 0) + 1;
+      entries.set(key, { value, updatedAt: now, expiresAt: entry?.expiresAt ?? now + ttlMs });
+      return value;
+    },
+
+    async get(key: string): Promise<number | null> {
+      return read(key, Date.now())?.value ?? null;
+    },
+
+    async set(key: string, value: number, ttlMs: number): Promise<void> {
+      const now = Date.now();
+      entries.set(key, { value, updatedAt: now, expiresAt: now + ttlMs });
+    },
+
+    async delete(key: string): Promise<void> {
+      entries.delete(key);
+    },
+  };
+}
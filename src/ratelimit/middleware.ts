@@ -0,0 +1,48 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { rateLimitStore } from './store.js';
+import type { Bucket, RateLimitStore } from './store.js';
+
+type RateLimitOptions = {
+  name: string; // Keeps the counts of different route groups apart
+  bucket: Bucket;
+  // What to count requests by, e.g. the IP or the account; requests without a key are not limited
+  key: (c: Context) => string | null | Promise<string | null>;
+  store?: RateLimitStore;
+};
+
+/**
+ * Creates a middleware that answers 429 with a Retry-After header once a caller has used up their bucket
+ * @param {RateLimitOptions} options - The bucket and what to count requests by
+ * @returns {MiddlewareHandler}
+ */
+export function rateLimit(options: RateLimitOptions): MiddlewareHandler {
+  const store = options.store ?? rateLimitStore;
+
+  return async (c, next) => {
+    const key = await options.key(c);
+    if (key === null) {
+      await next();
+      return;
+    }
+
+    let result;
+    try {
+      result = await store.consume(`${options.name}:${key}`, options.bucket);
+    } catch (error) {
+      // A store outage should not take the API down with it
+      console.error('Error checking rate limit:', error);
+      await next();
+      return;
+    }
+
+    c.header('RateLimit-Limit', String(options.bucket.capacity));
+    c.header('RateLimit-Remaining', String(result.remaining));
+
+    if (!result.allowed) {
+      c.header('Retry-After', String(result.retryAfterSeconds));
+      return c.json({ error: 'Too many requests, try again later', code: 'rate_limited', retryAfter: result.retryAfterSeconds }, 429);
+    }
+
+    await next();
+  };
+}
@@ -0,0 +1,33 @@
+import { createMemoryStore } from './memory.js';
+
+export type Bucket = {
+  capacity: number; // Requests allowed in a burst
+  refillPerMinute: number; // Requests allowed per minute once the burst is used up
+};
+
+export type ConsumeResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+};
+
+// Storage for rate limits and lockouts, so several API processes can share their counts through e.g. Redis
+export interface RateLimitStore {
+  // Takes a token from a bucket, refilling it for the time passed since it was last used
+  consume(key: string, bucket: Bucket): Promise<ConsumeResult>;
+  // Adds one to a counter and returns the new count, a new counter expires after ttlMs
+  increment(key: string, ttlMs: number): Promise<number>;
+  get(key: string): Promise<number | null>;
+  set(key: string, value: number, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * Creates the rate limit store. Counts are kept in memory, which is enough for a single API process.
+ * @returns {RateLimitStore}
+ */
+export function createRateLimitStore(): RateLimitStore {
+  return createMemoryStore();
+}
+
+export const rateLimitStore = createRateLimitStore();
@@ -0,0 +1,191 @@
+import { Zip, ZipDeflate, strToU8 } from 'fflate';
+import { stringify } from 'yaml';
+import { escapeHtml, renderNoteHtml } from './markdown.js';
+import type { ExportedNote, ExportedNotepad } from '../Database/export.db.js';
+
+// Bumped whenever the JSON export changes shape, the importer reads every version up to this one
+export const EXPORT_VERSION = 2; // 2 added pinned and position to notes
+
+/**
+ * Turns a title into a file name, keeping letters in any alphabet
+ * @param {string} title - The title
+ * @param {string} fallback - Used when nothing is left of the title
+ * @returns {string}
+ */
+function slugify(title: string, fallback: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+
+  return slug || fallback;
+}
+
+/**
+ * Builds the file name of an export, e.g. physics-101.zip
+ * @param {ExportedNotepad} notepad - The exported notepad
+ * @param {string} extension - The file extension without a dot
+ * @returns {string}
+ */
+export function exportFileName(notepad: ExportedNotepad, extension: string): string {
+  return `${slugify(notepad.title, 'notepad')}.${extension}`;
+}
+
+/**
+ * Writes a note as Markdown with YAML front matter
+ * @param {ExportedNote} note - The note
+ * @returns {string}
+ */
+function noteToMarkdown(note: ExportedNote): string {
+  const frontMatter = stringify({
+    title: note.title,
+    created: note.createdAt.toISOString(),
+    updated: note.updatedAt.toISOString(),
+    tags: note.tags,
+    format: note.format,
+    ...(note.pinned ? { pinned: true } : {}),
+  });
+
+  return `---\n${frontMatter}---\n\n${note.content}\n`;
+}
+
+/**
+ * Streams a zip archive with one Markdown file per note, numbered in the order the notes are listed in
+ * @param {ExportedNotepad} notepad - The notepad with its notes
+ * @returns {ReadableStream<Uint8Array>}
+ */
+export function exportMarkdownArchive(notepad: ExportedNotepad): ReadableStream<Uint8Array> {
+  const folder = slugify(notepad.title, 'notepad');
+  const width = Math.max(3, String(notepad.notes.length).length);
+  let zip: Zip;
+  let next = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      zip = new Zip((error, chunk, final) => {
+        if (error) {
+          controller.error(error);
+          return;
+        }
+
+        controller.enqueue(chunk);
+        if (final) controller.close();
+      });
+    },
+    // One note is compressed each time the client is ready for more
+    pull() {
+      if (next === notepad.notes.length) {
+        zip.end();
+        return;
+      }
+
+      const note = notepad.notes[next];
+      next += 1;
+
+      const number = String(next).padStart(width, '0');
+      const file = new ZipDeflate(`${folder}/${number}-${slugify(note.title, 'note')}.md`, { level: 6 });
+      file.mtime = note.updatedAt;
+      zip.add(file);
+      file.push(strToU8(noteToMarkdown(note)), true);
+    },
+    cancel() {
+      zip.terminate();
+    },
+  });
+}
+
+/**
+ * Builds the versioned JSON export, which holds everything needed to import the notepad again
+ * @param {ExportedNotepad} notepad - The notepad with its notes
+ * @returns {string}
+ */
+export function exportJson(notepad: ExportedNotepad): string {
+  const document = {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    notepad: {
+      title: notepad.title,
+      description: notepad.description,
+      isPublic: notepad.isPublic,
+      tags: notepad.tags,
+      createdAt: notepad.createdAt,
+      updatedAt: notepad.updatedAt,
+      notes: notepad.notes.map((note) => ({
+        title: note.title,
+        content: note.content,
+        format: note.format,
+        pinned: note.pinned,
+        position: note.position,
+        tags: note.tags,
+        createdAt: note.createdAt,
+        updatedAt: note.updatedAt,
+      })),
+    },
+  };
+
+  return JSON.stringify(document, null, 2);
+}
+
+// Styles are inlined so the page works offline and prints each note on its own page
+const HTML_STYLES = `
+  body { font-family: Georgia, serif; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; color: #222; }
+  header { border-bottom: 2px solid #222; margin-bottom: 2rem; }
+  article { margin-bottom: 3rem; }
+  .meta { color: #666; font-size: 0.85rem; }
+  .tag { display: inline-block; border: 1px solid #ccc; border-radius: 3px; padding: 0 0.3rem; margin-right: 0.3rem; }
+  pre { background: #f5f5f5; padding: 0.75rem; overflow-x: auto; }
+  code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ccc; padding: 0.25rem 0.5rem; }
+  mark { background: #fff3a0; }
+  @media print {
+    body { margin: 0; max-width: none; }
+    article { page-break-before: always; }
+    article:first-of-type { page-break-before: auto; }
+  }
+`;
+
+/**
+ * Formats the tags of a notepad or note for the HTML export
+ * @param {Array<string>} tags - Tag names
+ * @returns {string}
+ */
+function tagsHtml(tags: Array<string>): string {
+  return tags.map((tag) => `<span class="tag">${escapeHtml(tag)}</span>`).join('');
+}
+
+/**
+ * Builds a self-contained, printable HTML page with all notes rendered
+ * @param {ExportedNotepad} notepad - The notepad with its notes
+ * @returns {string}
+ */
+export function exportHtml(notepad: ExportedNotepad): string {
+  const notes = notepad.notes
+    .map((note) => `
+  <article>
+    <h1>${escapeHtml(note.title)}</h1>
+    <p class="meta">Updated ${note.updatedAt.toISOString().slice(0, 10)} ${tagsHtml(note.tags)}</p>
+    ${renderNoteHtml(note.content, note.format)}
+  </article>`)
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeHtml(notepad.title)}</title>
+  <style>${HTML_STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(notepad.title)}</h1>
+    ${notepad.description ? `<p>${escapeHtml(notepad.description)}</p>` : ''}
+    <p class="meta">${notepad.notes.length} notes, exported ${new Date().toISOString().slice(0, 10)} ${tagsHtml(notepad.tags)}</p>
+  </header>
+${notes}
+</body>
+</html>
+`;
+}
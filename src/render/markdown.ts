@@ -0,0 +1,106 @@
+import MarkdownIt from 'markdown-it';
+import markdownItKatex from '@vscode/markdown-it-katex';
+import type { KatexOptions } from 'katex';
+import sanitizeHtml from 'sanitize-html';
+import type { NoteFormat } from '@prisma/client';
+
+// Math is rendered to MathML only, so the output needs no inline styles or KaTeX fonts to survive the sanitizer
+const katexOptions: KatexOptions = {
+  output: 'mathml',
+  throwOnError: false,
+  trust: false,
+};
+
+// Raw HTML in the source is escaped rather than passed through, the sanitizer below is a second line of defence
+const md = new MarkdownIt({ html: false, linkify: true, typographer: false });
+// The plugin is published as CommonJS, plain Node hands us the module object rather than its default export
+const katexPlugin = (markdownItKatex as unknown as { default?: typeof markdownItKatex }).default ?? markdownItKatex;
+md.use(katexPlugin, katexOptions as Parameters<typeof markdownItKatex>[1]);
+
+// MathML elements and attributes produced by KaTeX
+const mathTags = [
+  'math', 'semantics', 'annotation', 'mrow', 'mi', 'mn', 'mo', 'ms', 'mtext', 'mspace', 'msup', 'msub',
+  'msubsup', 'mfrac', 'msqrt', 'mroot', 'munder', 'mover', 'munderover', 'mtable', 'mtr', 'mtd', 'mstyle',
+  'mpadded', 'mphantom', 'menclose', 'mmultiscripts', 'mprescripts', 'none', 'merror',
+];
+
+const mathAttributes = {
+  math: ['xmlns', 'display'],
+  annotation: ['encoding'],
+  mi: ['mathvariant'],
+  mo: ['stretchy', 'fence', 'separator', 'lspace', 'rspace', 'minsize', 'maxsize', 'form', 'accent', 'largeop', 'movablelimits'],
+  mspace: ['width', 'linebreak'],
+  mstyle: ['displaystyle', 'scriptlevel', 'mathvariant', 'mathcolor'],
+  mfrac: ['linethickness'],
+  munder: ['accentunder'],
+  mover: ['accent'],
+  munderover: ['accent', 'accentunder'],
+  mtable: ['columnalign', 'rowspacing', 'columnspacing', 'columnlines', 'rowlines', 'frame'],
+  mtd: ['columnalign'],
+  mpadded: ['width', 'height', 'depth', 'lspace', 'voffset'],
+  menclose: ['notation'],
+};
+
+// Strict allow-list applied to every rendered note
+const sanitizeOptions: sanitizeHtml.IOptions = {
+  allowedTags: [...sanitizeHtml.defaults.allowedTags, 'img', 'del', 's', ...mathTags],
+  allowedAttributes: {
+    a: ['href', 'title', 'rel'],
+    img: ['src', 'alt', 'title'],
+    code: ['class'],
+    span: ['class', 'title'],
+    p: ['class', 'title'],
+    th: ['style'],
+    td: ['style'],
+    ...mathAttributes,
+  },
+  allowedClasses: {
+    code: ['language-*'],
+    span: ['katex', 'katex-display', 'katex-error'],
+    p: ['katex-block', 'katex-error'],
+  },
+  allowedStyles: {
+    th: { 'text-align': [/^(left|right|center)$/] },
+    td: { 'text-align': [/^(left|right|center)$/] },
+  },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesByTag: { img: ['http', 'https'] },
+  allowProtocolRelative: false,
+  transformTags: {
+    a: sanitizeHtml.simpleTransform('a', { rel: 'noopener noreferrer nofollow' }),
+  },
+};
+
+/**
+ * Escapes text for use in HTML
+ * @param {string} text - The text to escape
+ * @returns {string}
+ */
+export function escapeHtml(text: string): string {
+  return md.utils.escapeHtml(text);
+}
+
+/**
+ * Renders plain text as HTML paragraphs, keeping line breaks
+ * @param {string} content - The plain text
+ * @returns {string}
+ */
+function renderPlain(content: string): string {
+  return content
+    .split(/\n\s*\n/)
+    .filter((paragraph) => paragraph.trim() !== '')
+    .map((paragraph) => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br />\n')}</p>`)
+    .join('\n');
+}
+
+/**
+ * Renders the content of a note as sanitized HTML.
+ * Markdown supports code blocks, tables and math between $ or $$ delimiters.
+ * @param {string} content - The raw note source
+ * @param {NoteFormat} format - How the source is written
+ * @returns {string}
+ */
+export function renderNoteHtml(content: string, format: NoteFormat): string {
+  const html = format === 'markdown' ? md.render(content) : renderPlain(content);
+  return sanitizeHtml(html, sanitizeOptions);
+}
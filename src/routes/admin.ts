@@ -0,0 +1,290 @@
+import { Hono } from 'hono';
+import type { z } from 'zod';
+import type { UserRole } from '@prisma/client';
+import { config } from '../config.js';
+import { queryAuditLog, validateAuditQuery } from '../Database/audit.db.js';
+import type { AuditQuerySchema } from '../Database/audit.db.js';
+import {
+  getUsers,
+  getUserById,
+  deleteUser,
+  suspendUser,
+  unsuspendUser,
+  setUserRole,
+  validateUserQuery,
+  validateUserSuspension,
+  validateUserRoleChange
+} from '../Database/user.db.js';
+import type { UserQuerySchema, UserSuspensionSchema, UserRoleChangeSchema } from '../Database/user.db.js';
+import { updateNotepad, deleteNotepad } from '../Database/notepad.db.js';
+import { purgeNotepad } from '../Database/trash.db.js';
+import { getReports, closeReport, validateReportQuery, validateReportResolution } from '../Database/report.db.js';
+import type { ReportQuerySchema, ReportResolutionSchema } from '../Database/report.db.js';
+import { outranks } from '../auth/policy.js';
+import { authMiddleware, requireRole, jsonBody, queryParams } from './middleware.js';
+import type { AppEnv, QueryOf } from './middleware.js';
+import { auditContext } from './helpers.js';
+
+/**
+ * Finds the account a moderator or admin wants to act on.
+ * Only accounts with a lower role than the caller's may be suspended or deleted.
+ * @returns {Promise<{ status: 404 | 403 } | { user }>} - The error status, or the user if the caller may go ahead
+ */
+async function findTargetUser(id: number, role: UserRole) {
+  const user = await getUserById(id);
+  if (!user) {
+    return { status: 404 as const };
+  }
+  if (!outranks(role, user.role)) {
+    return { status: 403 as const };
+  }
+  return { user };
+}
+
+export const adminRoutes = new Hono<AppEnv>()
+  // Searches the audit log, newest first, pass next as ?before= for the following page
+  .get('/admin/audit', authMiddleware, requireRole('admin'), queryParams<QueryOf<typeof AuditQuerySchema>>(), async (c) => {
+    const query = validateAuditQuery(c.req.query());
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', errors: query.error.flatten() }, 400);
+    }
+
+    try {
+      const { data, next } = await queryAuditLog(query.data);
+      return c.json({ data, next, retentionDays: config.audit.retentionDays }, 200);
+    } catch (error) {
+      console.error('Error querying audit log:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Lists users, newest first, ?q= searches usernames and emails
+  .get('/admin/users', authMiddleware, requireRole('moderator'), queryParams<QueryOf<typeof UserQuerySchema>>(), async (c) => {
+    const query = validateUserQuery(c.req.query());
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', errors: query.error.flatten() }, 400);
+    }
+
+    try {
+      const { limit, page, ...filter } = query.data;
+      const { users, total } = await getUsers(limit, page, filter);
+      const totalPages = Math.ceil(total / limit);
+
+      return c.json({
+        data: users,
+        pagination: { page, limit, total, totalPages },
+      }, 200);
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/admin/users/:id/suspend', authMiddleware, requireRole('moderator'), jsonBody<z.input<typeof UserSuspensionSchema>>(), async (c) => {
+    const id = Number(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid user ID' }, 400);
+    }
+
+    const suspension = validateUserSuspension(c.req.valid('json'));
+    if (!suspension.success) {
+      return c.json({ error: 'Invalid data', errors: suspension.error.flatten() }, 400);
+    }
+
+    try {
+      const target = await findTargetUser(id, c.get('role'));
+      if ('status' in target) {
+        return target.status === 404
+          ? c.json({ error: 'User not found' }, 404)
+          : c.json({ error: 'You cannot suspend a user with the same or a higher role' }, 403);
+      }
+      if (target.user.suspendedAt) {
+        return c.json({ error: 'User is already suspended' }, 409);
+      }
+
+      const user = await suspendUser(id, suspension.data.reason, auditContext(c));
+      if (!user) {
+        return c.json({ error: 'User is already suspended' }, 409);
+      }
+
+      return c.json(user, 200);
+    } catch (error) {
+      console.error('Error suspending user:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/admin/users/:id/unsuspend', authMiddleware, requireRole('moderator'), async (c) => {
+    const id = Number(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid user ID' }, 400);
+    }
+
+    try {
+      const target = await findTargetUser(id, c.get('role'));
+      if ('status' in target) {
+        return target.status === 404
+          ? c.json({ error: 'User not found' }, 404)
+          : c.json({ error: 'You cannot unsuspend a user with the same or a higher role' }, 403);
+      }
+
+      const user = await unsuspendUser(id, auditContext(c));
+      if (!user) {
+        return c.json({ error: 'User is not suspended' }, 409);
+      }
+
+      return c.json(user, 200);
+    } catch (error) {
+      console.error('Error unsuspending user:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .patch('/admin/users/:id/role', authMiddleware, requireRole('admin'), jsonBody<z.input<typeof UserRoleChangeSchema>>(), async (c) => {
+    const id = Number(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid user ID' }, 400);
+    }
+
+    const change = validateUserRoleChange(c.req.valid('json'));
+    if (!change.success) {
+      return c.json({ error: 'Invalid data', errors: change.error.flatten() }, 400);
+    }
+
+    // Another admin has to do it, so the last admin cannot lock everyone out by accident
+    if (id === Number(c.get('userId'))) {
+      return c.json({ error: 'You cannot change your own role' }, 403);
+    }
+
+    try {
+      const user = await setUserRole(id, change.data.role, auditContext(c));
+      if (!user) {
+        return c.json({ error: 'User not found' }, 404);
+      }
+
+      return c.json(user, 200);
+    } catch (error) {
+      console.error('Error changing user role:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Deletes an account and everything it owns, as DELETE /users/me does but without the password
+  .delete('/admin/users/:id', authMiddleware, requireRole('admin'), async (c) => {
+    const id = Number(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid user ID' }, 400);
+    }
+
+    try {
+      const target = await findTargetUser(id, c.get('role'));
+      if ('status' in target) {
+        return target.status === 404
+          ? c.json({ error: 'User not found' }, 404)
+          : c.json({ error: 'You cannot delete a user with the same or a higher role' }, 403);
+      }
+
+      await deleteUser(id, auditContext(c));
+      return c.json({ message: 'User deleted' }, 200);
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Makes any notepad private, its owner can publish it again
+  .post('/admin/notepads/:id/unpublish', authMiddleware, requireRole('moderator'), async (c) => {
+    const notepadId = Number(c.req.param('id'));
+    if (isNaN(notepadId)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400);
+    }
+
+    try {
+      const notepad = await updateNotepad(notepadId, { isPublic: false }, auditContext(c));
+      if (!notepad) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+
+      return c.json(notepad, 200);
+    } catch (error) {
+      console.error('Error unpublishing notepad:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Deletes any notepad for good, it does not go through the owner's trash
+  .delete('/admin/notepads/:id', authMiddleware, requireRole('moderator'), async (c) => {
+    const notepadId = Number(c.req.param('id'));
+    if (isNaN(notepadId)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400);
+    }
+
+    try {
+      const context = auditContext(c);
+      await deleteNotepad(notepadId, context); // Does nothing when it is already in the trash
+      if (!(await purgeNotepad(notepadId, context))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+
+      return c.json({ message: 'Permanently deleted' }, 200);
+    } catch (error) {
+      console.error('Error deleting notepad:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // The moderation queue, oldest first, pass next as ?after= for the following page
+  .get('/admin/reports', authMiddleware, requireRole('moderator'), queryParams<QueryOf<typeof ReportQuerySchema>>(), async (c) => {
+    const query = validateReportQuery(c.req.query());
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', errors: query.error.flatten() }, 400);
+    }
+
+    try {
+      const { data, next } = await getReports(query.data);
+      return c.json({ data, next }, 200);
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Closes a report after acting on it, e.g. unpublishing the notepad
+  .post('/admin/reports/:id/resolve', authMiddleware, requireRole('moderator'), jsonBody<z.input<typeof ReportResolutionSchema>>(), async (c) => {
+    const id = Number(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid report ID' }, 400);
+    }
+
+    const resolution = validateReportResolution(c.req.valid('json'));
+    if (!resolution.success) {
+      return c.json({ error: 'Invalid data', errors: resolution.error.flatten() }, 400);
+    }
+
+    try {
+      const report = await closeReport(id, 'resolved', resolution.data.note, auditContext(c));
+      if (!report) {
+        return c.json({ error: 'Open report not found' }, 404);
+      }
+
+      return c.json(report, 200);
+    } catch (error) {
+      console.error('Error resolving report:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Closes a report without acting on it
+  .post('/admin/reports/:id/dismiss', authMiddleware, requireRole('moderator'), jsonBody<z.input<typeof ReportResolutionSchema>>(), async (c) => {
+    const id = Number(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid report ID' }, 400);
+    }
+
+    const resolution = validateReportResolution(c.req.valid('json'));
+    if (!resolution.success) {
+      return c.json({ error: 'Invalid data', errors: resolution.error.flatten() }, 400);
+    }
+
+    try {
+      const report = await closeReport(id, 'dismissed', resolution.data.note, auditContext(c));
+      if (!report) {
+        return c.json({ error: 'Open report not found' }, 404);
+      }
+
+      return c.json(report, 200);
+    } catch (error) {
+      console.error('Error dismissing report:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
@@ -0,0 +1,188 @@
+import { Hono } from 'hono';
+import { config } from '../config.js';
+import {
+  getAttachments,
+  getAttachment,
+  countAttachments,
+  createAttachment,
+  deleteAttachment
+} from '../Database/attachment.db.js';
+import { storage } from '../storage/storage.js';
+import type { ByteRange } from '../storage/storage.js';
+import { matchesContentType, normalizeContentType } from '../lib/fileType.js';
+import { canReadNote, canWriteNote } from '../auth/policy.js';
+import { authMiddleware, optionalAuthMiddleware, uploadLimit } from './middleware.js';
+import type { AppEnv } from './middleware.js';
+import { getUserId, attachment, auditContext } from './helpers.js';
+
+// Types browsers may show in the page, everything else is offered as a download
+const INLINE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'application/pdf'];
+
+
+/**
+ * Reads a single byte range from a Range header, e.g. bytes=0-1023, bytes=1024- or bytes=-500.
+ * Headers with several ranges or in another unit are ignored and the whole file is sent.
+ * @param {string | undefined} header - The Range header
+ * @param {number} size - The size of the file
+ * @returns {ByteRange | 'unsatisfiable' | undefined} - undefined when the whole file should be sent
+ */
+function parseRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | undefined {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (match[1] === '' && match[2] === '')) {
+    return undefined;
+  }
+
+  if (match[1] === '') {
+    // The last n bytes
+    const length = Number(match[2]);
+    return length === 0 || size === 0 ? 'unsatisfiable' : { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  return start >= size || start > end ? 'unsatisfiable' : { start, end };
+}
+
+export const attachmentRoutes = new Hono<AppEnv>()
+  .get('/notes/:id/attachments', optionalAuthMiddleware, async (c) => {
+    const noteId = parseInt(c.req.param('id'));
+    if (isNaN(noteId)) {
+      return c.json({ error: 'Invalid note ID' }, 400);
+    }
+
+    try {
+      if (!(await canReadNote(noteId, getUserId(c)))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+
+      return c.json(await getAttachments(noteId), 200);
+    } catch (error) {
+      console.error('Error fetching attachments:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Uploads a file as multipart/form-data in the "file" field
+  .post('/notes/:id/attachments', authMiddleware, uploadLimit(config.attachments.maxBytes), async (c) => {
+    const noteId = parseInt(c.req.param('id'));
+    if (isNaN(noteId)) {
+      return c.json({ error: 'Invalid note ID' }, 400);
+    }
+
+    let body;
+    try {
+      body = await c.req.parseBody();
+    } catch {
+      return c.json({ error: 'Expected a multipart/form-data upload' }, 400);
+    }
+
+    const file = body['file'];
+    if (!(file instanceof File)) {
+      return c.json({ error: 'A file is required in the "file" field' }, 400);
+    }
+    if (file.size > config.attachments.maxBytes) {
+      return c.json({ error: `The file must be at most ${config.attachments.maxBytes / 1024 / 1024} MB` }, 413);
+    }
+
+    const contentType = normalizeContentType(file.type);
+    if (!config.attachments.allowedTypes.includes(contentType)) {
+      return c.json({ error: `Files of type ${contentType} are not allowed`, allowed: config.attachments.allowedTypes }, 415);
+    }
+
+    const userId = Number(c.get('userId'));
+
+    try {
+      if (!(await canReadNote(noteId, userId))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+      if (!(await canWriteNote(noteId, userId))) {
+        return c.json({ error: 'You do not have permission to add attachments to this note' }, 403);
+      }
+      if ((await countAttachments(noteId)) >= config.attachments.maxPerNote) {
+        return c.json({ error: `A note can have at most ${config.attachments.maxPerNote} attachments` }, 409);
+      }
+
+      const data = new Uint8Array(await file.arrayBuffer());
+      if (!matchesContentType(contentType, data)) {
+        return c.json({ error: `The file is not a valid ${contentType} file` }, 415);
+      }
+
+      const created = await createAttachment(noteId, userId, { fileName: file.name, contentType, data });
+      return c.json(created, 201);
+    } catch (error) {
+      console.error('Error uploading attachment:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Sends the file, a Range header asks for part of it, e.g. to resume a download or seek in a PDF
+  .get('/attachments/:id', optionalAuthMiddleware, async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid attachment ID' }, 400);
+    }
+
+    try {
+      const file = await getAttachment(id);
+      // Attachments of notes in the trash cannot be read, like the notes themselves
+      if (!file || !(await canReadNote(file.noteId, getUserId(c)))) {
+        return c.json({ error: 'Attachment not found' }, 404);
+      }
+
+      const range = parseRange(c.req.header('Range'), file.size);
+      if (range === 'unsatisfiable') {
+        c.header('Content-Range', `bytes */${file.size}`);
+        return c.json({ error: 'Range Not Satisfiable' }, 416);
+      }
+
+      const stream = await storage.get(file.storageKey, range);
+      if (!stream) {
+        console.error(`Stored file of attachment ${id} is missing`);
+        return c.json({ error: 'Attachment not found' }, 404);
+      }
+
+      const inline = INLINE_TYPES.includes(file.contentType);
+      c.header('Content-Type', file.contentType.startsWith('text/') ? `${file.contentType}; charset=utf-8` : file.contentType);
+      c.header('Content-Disposition', attachment(file.fileName, inline ? 'inline' : 'attachment'));
+      c.header('Accept-Ranges', 'bytes');
+      c.header('X-Content-Type-Options', 'nosniff'); // The browser must not guess another type, e.g. HTML
+      c.header('Content-Security-Policy', 'sandbox'); // No scripts, should a viewer run any
+
+      if (range) {
+        c.header('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`);
+        c.header('Content-Length', String(range.end - range.start + 1));
+        return c.body(stream, 206);
+      }
+
+      c.header('Content-Length', String(file.size));
+      return c.body(stream, 200);
+    } catch (error) {
+      console.error('Error downloading attachment:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .delete('/attachments/:id', authMiddleware, async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid attachment ID' }, 400);
+    }
+
+    const userId = getUserId(c);
+
+    try {
+      const file = await getAttachment(id);
+      if (!file || !(await canReadNote(file.noteId, userId))) {
+        return c.json({ error: 'Attachment not found' }, 404);
+      }
+      if (!(await canWriteNote(file.noteId, userId))) {
+        return c.json({ error: 'You do not have permission to delete this attachment' }, 403);
+      }
+
+      if (!(await deleteAttachment(id, auditContext(c)))) {
+        return c.json({ error: 'Attachment not found' }, 404);
+      }
+
+      return c.json({ message: 'Attachment deleted' }, 200);
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
@@ -0,0 +1,243 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { z } from 'zod';
+import { signToken, verifyToken } from '../auth/jwt.js';
+import { config } from '../config.js';
+import { mailer } from '../mail/mailer.js';
+import { loginLockout } from '../ratelimit/lockout.js';
+import {
+  getUserById,
+  getUserByEmail,
+  verifyCredentials,
+  markEmailVerified,
+  validateEmailVerification
+} from '../Database/user.db.js';
+import type { EmailVerificationSchema } from '../Database/user.db.js';
+import {
+  rotateRefreshToken,
+  getActiveSessions,
+  revokeSession,
+  revokeAllSessions,
+  validateRefreshRequest
+} from '../Database/session.db.js';
+import type { RefreshRequestSchema } from '../Database/session.db.js';
+import {
+  createPasswordResetToken,
+  resetPassword,
+  validateForgotPassword,
+  validateResetPassword
+} from '../Database/passwordReset.db.js';
+import type { ForgotPasswordSchema, ResetPasswordSchema } from '../Database/passwordReset.db.js';
+import { recordAudit } from '../Database/audit.db.js';
+import {
+  jwtSettings,
+  authMiddleware,
+  getClientInfo,
+  authRateLimit,
+  loginRateLimit,
+  jsonBody
+} from './middleware.js';
+import type { AppEnv } from './middleware.js';
+import { ACCESS_TOKEN_TTL, startSession, sendVerificationEmail, auditContext } from './helpers.js';
+
+// Records a failed login against the account it was for, so its owner sees it in their activity
+const recordLoginFailure = async (c: Context, account: string, reason: 'invalid_credentials' | 'locked' | 'suspended') => {
+  const user = account ? await getUserByEmail(account) : null;
+  await recordAudit(auditContext(c), {
+    action: 'auth.login_failed',
+    targetType: 'user',
+    targetId: user?.id ?? null,
+    after: { email: account, reason },
+  });
+};
+
+export const authRoutes = new Hono<AppEnv>()
+  .post('/auth/login', authRateLimit, loginRateLimit, jsonBody<{ email: string; password: string }>(), async (c) => {
+    const credentials = c.req.valid('json');
+
+    try {
+      // A locked account is refused before the password is checked, so guessing costs no bcrypt work
+      const account = String(credentials.email ?? '');
+      const lockedFor = await loginLockout.lockedFor(account);
+      if (lockedFor > 0) {
+        await recordLoginFailure(c, account, 'locked');
+        c.header('Retry-After', String(lockedFor));
+        return c.json({ error: 'Too many failed logins, try again later', code: 'account_locked', retryAfter: lockedFor }, 429);
+      }
+
+      const user = await verifyCredentials(account, String(credentials.password ?? ''));
+      if (!user) {
+        await recordLoginFailure(c, account, 'invalid_credentials');
+        const lockSeconds = await loginLockout.recordFailure(account);
+        if (lockSeconds > 0) {
+          c.header('Retry-After', String(lockSeconds));
+          return c.json({ error: 'Too many failed logins, try again later', code: 'account_locked', retryAfter: lockSeconds }, 429);
+        }
+        return c.json({ error: 'Invalid email or password' }, 401);
+      }
+
+      await loginLockout.clear(account);
+
+      // Checked after the password, so a suspension is only revealed to the account's owner
+      if (user.suspendedAt) {
+        await recordLoginFailure(c, account, 'suspended');
+        return c.json({ error: 'Account suspended', code: 'account_suspended' }, 403);
+      }
+
+      const tokens = await startSession(c, user.id);
+      await recordAudit({ ...auditContext(c), actorId: user.id }, { action: 'auth.login', targetType: 'user', targetId: user.id });
+      return c.json({
+        user: { id: user.id, username: user.username, email: user.email },
+        ...tokens
+      }, 200);
+    } catch (error) {
+      console.error('Error during login:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/auth/refresh', authRateLimit, jsonBody<z.input<typeof RefreshRequestSchema>>(), async (c) => {
+    const body = c.req.valid('json');
+
+    const validRequest = validateRefreshRequest(body);
+    if (!validRequest.success) {
+      return c.json({ error: 'Invalid data', errors: validRequest.error.flatten() }, 400);
+    }
+
+    try {
+      const rotated = await rotateRefreshToken(validRequest.data.refreshToken, getClientInfo(c));
+      if (!rotated) return c.json({ error: 'Invalid or expired refresh token' }, 401);
+
+      const token = signToken({ userId: rotated.userId, sid: rotated.session.id }, jwtSettings, ACCESS_TOKEN_TTL);
+      return c.json({ token, refreshToken: rotated.refreshToken, expiresIn: ACCESS_TOKEN_TTL }, 200);
+    } catch (error) {
+      console.error('Error refreshing token:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/auth/logout', authMiddleware, async (c) => {
+    try {
+      await revokeSession(c.get('sessionId'));
+      return c.json({ success: true }, 200);
+    } catch (error) {
+      console.error('Error during logout:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .get('/auth/sessions', authMiddleware, async (c) => {
+    try {
+      const currentSessionId = c.get('sessionId');
+      const sessions = await getActiveSessions(Number(c.get('userId')));
+      return c.json({
+        data: sessions.map((session) => ({ ...session, current: session.id === currentSessionId })),
+      }, 200);
+    } catch (error) {
+      console.error('Error fetching sessions:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .delete('/auth/sessions/:id', authMiddleware, async (c) => {
+    try {
+      const revoked = await revokeSession(c.req.param('id'), Number(c.get('userId')));
+      if (!revoked) return c.json({ error: 'Session not found' }, 404);
+      return c.json({ success: true }, 200);
+    } catch (error) {
+      console.error('Error revoking session:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/auth/verify-email', authRateLimit, jsonBody<z.input<typeof EmailVerificationSchema>>(), async (c) => {
+    const body = c.req.valid('json');
+
+    const validRequest = validateEmailVerification(body);
+    if (!validRequest.success) {
+      return c.json({ error: 'Invalid data', errors: validRequest.error.flatten() }, 400);
+    }
+
+    let payload;
+    try {
+      payload = verifyToken(validRequest.data.token, jwtSettings);
+    } catch {
+      return c.json({ error: 'Invalid or expired verification link' }, 400);
+    }
+
+    if (payload.purpose !== 'email-verification') {
+      return c.json({ error: 'Invalid or expired verification link' }, 400);
+    }
+
+    try {
+      // Fails if the email was changed after the link was sent
+      if (!(await markEmailVerified(payload.userId, payload.email))) {
+        return c.json({ error: 'Invalid or expired verification link' }, 400);
+      }
+
+      return c.json({ message: 'Email verified' }, 200);
+    } catch (error) {
+      console.error('Error verifying email:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/auth/verify-email/resend', authMiddleware, async (c) => {
+    try {
+      const user = await getUserById(Number(c.get('userId')));
+      if (!user) return c.json({ error: 'User not found' }, 404);
+      if (user.emailVerifiedAt) return c.json({ error: 'Email is already verified' }, 400);
+
+      const retryAfter = await sendVerificationEmail(user.id, user.email);
+      if (retryAfter > 0) {
+        c.header('Retry-After', String(retryAfter));
+        return c.json({ error: 'A verification email was sent recently, try again later' }, 429);
+      }
+
+      return c.json({ message: 'Verification email sent' }, 200);
+    } catch (error) {
+      console.error('Error resending verification email:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/auth/forgot-password', authRateLimit, jsonBody<z.input<typeof ForgotPasswordSchema>>(), async (c) => {
+    const body = c.req.valid('json');
+
+    const validRequest = validateForgotPassword(body);
+    if (!validRequest.success) {
+      return c.json({ error: 'Invalid data', errors: validRequest.error.flatten() }, 400);
+    }
+
+    try {
+      const reset = await createPasswordResetToken(validRequest.data.email);
+      if (reset) {
+        const link = `${config.appUrl}/reset-password?token=${encodeURIComponent(reset.token)}`;
+        // Not awaited so the response time does not reveal whether the email exists
+        mailer.send({
+          to: reset.email,
+          subject: 'Reset your password',
+          text: `Someone asked to reset the password for your account.\n\nOpen this link within an hour to choose a new password:\n${link}\n\nIf this was not you, you can ignore this email.`,
+        }).catch((error) => console.error('Error sending password reset email:', error));
+      }
+
+      // Same answer whether or not the email is registered
+      return c.json({ message: 'If an account with that email exists, a reset link has been sent' }, 200);
+    } catch (error) {
+      console.error('Error requesting password reset:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/auth/reset-password', authRateLimit, jsonBody<z.input<typeof ResetPasswordSchema>>(), async (c) => {
+    const body = c.req.valid('json');
+
+    const validRequest = validateResetPassword(body);
+    if (!validRequest.success) {
+      return c.json({ error: 'Invalid data', errors: validRequest.error.flatten() }, 400);
+    }
+
+    try {
+      const userId = await resetPassword(validRequest.data.token, validRequest.data.password);
+      if (!userId) return c.json({ error: 'Invalid or expired reset token' }, 400);
+
+      // Whoever knew the old password should not stay logged in
+      await revokeAllSessions(userId);
+      return c.json({ message: 'Password has been reset' }, 200);
+    } catch (error) {
+      console.error('Error resetting password:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
@@ -0,0 +1,88 @@
+import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
+import { config } from '../config.js';
+import { eventBus } from '../events/bus.js';
+import type { NotepadEvent } from '../events/bus.js';
+import { getNotepad } from '../Database/notepad.db.js';
+import { canReadNotepad } from '../auth/policy.js';
+import { streamAuthMiddleware, queryParams } from './middleware.js';
+import type { AppEnv } from './middleware.js';
+import { getUserId } from './helpers.js';
+
+export const eventRoutes = new Hono<AppEnv>()
+  // Streams changes to a notepad and its notes as Server-Sent Events.
+  // Clients that reconnect with Last-Event-ID get the events they missed, or a reset event when those are gone.
+  .get('/notepads/:id/events', streamAuthMiddleware, queryParams<{ access_token?: string; lastEventId?: string }>(), async (c) => {
+    const notepadId = parseInt(c.req.param('id'));
+    if (isNaN(notepadId)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400);
+    }
+
+    const userId = getUserId(c);
+    try {
+      if (!(await getNotepad(notepadId)) || !(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+    } catch (error) {
+      console.error('Error checking notepad access:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+
+    const lastEventId = c.req.header('Last-Event-ID') ?? c.req.query('lastEventId');
+
+    return streamSSE(c, async (stream) => {
+      const queue: Array<NotepadEvent> = [];
+      let wake: (() => void) | null = null;
+
+      // Subscribing and replaying happen in the same tick, so no event is missed or sent twice
+      const unsubscribe = eventBus.subscribe(notepadId, (event) => {
+        queue.push(event);
+        wake?.();
+      });
+      const missed = lastEventId ? eventBus.replay(notepadId, lastEventId) : [];
+      stream.onAbort(() => {
+        unsubscribe();
+        wake?.();
+      });
+
+      // Waits for the next event, or until a heartbeat is due
+      const nextEvent = () => new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, config.events.heartbeatSeconds * 1000);
+        wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+
+      try {
+        if (missed === null) {
+          await stream.writeSSE({ event: 'reset', data: JSON.stringify({ notepadId }) });
+        } else {
+          queue.unshift(...missed);
+        }
+        await stream.writeSSE({ event: 'ready', data: JSON.stringify({ notepadId }), retry: 3000 });
+
+        while (!stream.aborted) {
+          const event = queue.shift();
+          if (!event) {
+            await nextEvent();
+            wake = null;
+            if (queue.length === 0 && !stream.aborted) await stream.write(': ping\n\n');
+            continue;
+          }
+
+          // Access can be lost while the stream is open, e.g. when a member is removed or a notepad is made private
+          if (event.type !== 'notepad.deleted' && !(await canReadNotepad(notepadId, userId))) {
+            break;
+          }
+
+          await stream.writeSSE({ id: event.id, event: event.type, data: JSON.stringify(event.data) });
+          if (event.type === 'notepad.deleted') {
+            break;
+          }
+        }
+      } finally {
+        unsubscribe();
+      }
+    });
+  });
@@ -0,0 +1,111 @@
+import type { Context } from 'hono';
+import { signToken } from '../auth/jwt.js';
+import { config } from '../config.js';
+import { mailer } from '../mail/mailer.js';
+import { claimVerificationEmail } from '../Database/user.db.js';
+import { createSession } from '../Database/session.db.js';
+import type { AuditContext } from '../Database/audit.db.js';
+import { validateTagFilter } from '../Database/tag.db.js';
+import { validateListQuery, validateNoteListQuery } from '../Database/listQuery.db.js';
+import { renderNoteHtml } from '../render/markdown.js';
+import { getClientInfo, jwtSettings } from './middleware.js';
+
+export const ACCESS_TOKEN_TTL = 60 * 60; // 1 hour, clients get a new one through /auth/refresh
+const EMAIL_VERIFICATION_TTL = 24 * 60 * 60; // 1 day
+
+// Returns the ID of the authenticated caller, or undefined for anonymous requests
+export const getUserId = (c: Context): number | undefined => {
+  const userId = c.get('userId');
+  return userId === undefined ? undefined : Number(userId);
+};
+
+// Who is making the request and from where, for the audit log
+export const auditContext = (c: Context): AuditContext => {
+  const { userAgent, ip } = getClientInfo(c);
+  return { actorId: getUserId(c) ?? null, ip, userAgent };
+};
+
+// Query parameters read by parseTagFilter() and parseRender(), declared with queryParams()
+export type TagQuery = { tag?: string | Array<string>; tagMatch?: 'all' | 'any' };
+export type RenderQuery = { render?: 'html' };
+
+// Reads the ?tag=a&tag=b&tagMatch=all|any filter of a list endpoint
+export const parseTagFilter = (c: Context) => {
+  return validateTagFilter({ tags: c.req.queries('tag') ?? [], match: c.req.query('tagMatch') });
+};
+
+// Reads ?limit, ?page, ?sort, ?order, ?title and ?cursor of a list endpoint
+export const parseListQuery = (c: Context) => {
+  return validateListQuery(c.req.query());
+};
+
+// Reads the same parameters for a note list, which can also be sorted by position
+export const parseNoteListQuery = (c: Context) => {
+  return validateNoteListQuery(c.req.query());
+};
+
+// Reads the ?render=html option of a note endpoint, null when the value is not supported
+export const parseRender = (c: Context): boolean | null => {
+  const render = c.req.query('render');
+  if (render === undefined) return false;
+  return render === 'html' ? true : null;
+};
+
+// Adds the rendered HTML to a note when it was asked for
+export const withRender = <T extends { content: string; format: 'plain' | 'markdown' }>(note: T, render: boolean) => {
+  return render ? { ...note, html: renderNoteHtml(note.content, note.format) } : note;
+};
+
+// Builds the ETag of a note or notepad from its version
+export const etag = (version: number) => `"v${version}"`;
+
+// Reads the If-Match header of a write as a list of versions, undefined when any version will do.
+// Weak tags are compared like strong ones, tags we did not hand out match nothing.
+export const parseIfMatch = (c: Context): Array<number> | undefined => {
+  const header = c.req.header('If-Match');
+  if (header === undefined || header.trim() === '*') return undefined;
+
+  return header.split(',').flatMap((tag) => {
+    const match = /^\s*(?:W\/)?"v(\d+)"\s*$/.exec(tag);
+    return match ? [Number(match[1])] : [];
+  });
+};
+
+// Answers a write whose If-Match did not match, with the copy the server has now
+export const preconditionFailed = (c: Context, current: { version: number } | null) => {
+  if (current) c.header('ETag', etag(current.version));
+  return c.json({ error: 'Precondition Failed', code: 'version_mismatch', current }, 412);
+};
+
+// Builds a Content-Disposition header that offers a download, or shows the file in the browser when inline,
+// with a UTF-8 name for non-ASCII titles
+export const attachment = (fileName: string, disposition: 'attachment' | 'inline' = 'attachment') => {
+  const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+  return `${disposition}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+};
+
+// Starts a new session and returns the tokens the client needs for it
+export const startSession = async (c: Context, userId: number) => {
+  const { session, refreshToken } = await createSession(userId, getClientInfo(c));
+  const token = signToken({ userId, sid: session.id }, jwtSettings, ACCESS_TOKEN_TTL);
+  return { token, refreshToken, expiresIn: ACCESS_TOKEN_TTL };
+};
+
+// Sends a signed verification link to a user's email, unless one was sent too recently.
+// Returns 0 when the email was sent, otherwise the number of seconds until it may be sent again.
+export const sendVerificationEmail = async (userId: number, email: string): Promise<number> => {
+  const retryAfter = await claimVerificationEmail(userId, config.emailVerification.resendIntervalSeconds * 1000);
+  if (retryAfter > 0) {
+    return retryAfter;
+  }
+
+  const token = signToken({ purpose: 'email-verification', userId, email }, jwtSettings, EMAIL_VERIFICATION_TTL);
+  const link = `${config.appUrl}/verify-email?token=${encodeURIComponent(token)}`;
+  await mailer.send({
+    to: email,
+    subject: 'Verify your email',
+    text: `Open this link within a day to verify your email address:\n${link}`,
+  });
+
+  return 0;
+};
@@ -0,0 +1,138 @@
+import { Hono } from 'hono';
+import type { z } from 'zod';
+import {
+  getMembers,
+  findInvitee,
+  inviteMember,
+  updateMemberRole,
+  removeMember,
+  validateMemberInvite,
+  validateMemberUpdate
+} from '../Database/member.db.js';
+import type { MemberToInviteSchema, MemberToUpdateSchema } from '../Database/member.db.js';
+import { canReadNotepad, canManageNotepad } from '../auth/policy.js';
+import { authMiddleware, jsonBody } from './middleware.js';
+import type { AppEnv } from './middleware.js';
+import { getUserId, auditContext } from './helpers.js';
+
+export const memberRoutes = new Hono<AppEnv>()
+  .get('/notepads/:id/members', authMiddleware, async (c) => {
+    const notepadId = Number(c.req.param('id'));
+    if (isNaN(notepadId)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400);
+    }
+
+    try {
+      // Members are listed to everyone who can see the notepad through membership or ownership
+      const userId = getUserId(c);
+      if (!(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+
+      const members = await getMembers(notepadId);
+      return c.json({ data: members }, 200);
+    } catch (error) {
+      console.error('Error fetching members:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/notepads/:id/members', authMiddleware, jsonBody<z.input<typeof MemberToInviteSchema>>(), async (c) => {
+    const notepadId = Number(c.req.param('id'));
+    if (isNaN(notepadId)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400);
+    }
+
+    const inviteData = c.req.valid('json');
+
+    const validInvite = validateMemberInvite(inviteData);
+    if (!validInvite.success) {
+      return c.json({ error: 'Invalid data', errors: validInvite.error.flatten() }, 400);
+    }
+
+    try {
+      const userId = getUserId(c);
+      if (!(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+      if (!(await canManageNotepad(notepadId, userId))) {
+        return c.json({ error: 'Only the owner can invite members to this notepad' }, 403);
+      }
+
+      const inviteeId = await findInvitee(validInvite.data);
+      if (inviteeId === null) {
+        return c.json({ error: 'User not found' }, 404);
+      }
+      if (inviteeId === userId) {
+        return c.json({ error: 'You cannot invite yourself' }, 400); // The owner already has full access
+      }
+
+      const member = await inviteMember(notepadId, inviteeId, validInvite.data.role);
+      return c.json(member, 201);
+    } catch (error) {
+      console.error('Error inviting member:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .patch('/notepads/:id/members/:userId', authMiddleware, jsonBody<z.input<typeof MemberToUpdateSchema>>(), async (c) => {
+    const notepadId = Number(c.req.param('id'));
+    const memberId = Number(c.req.param('userId'));
+    if (isNaN(notepadId) || isNaN(memberId)) {
+      return c.json({ error: 'Invalid ID' }, 400);
+    }
+
+    const updateData = c.req.valid('json');
+
+    const validUpdate = validateMemberUpdate(updateData);
+    if (!validUpdate.success) {
+      return c.json({ error: 'Invalid data', errors: validUpdate.error.flatten() }, 400);
+    }
+
+    try {
+      const userId = getUserId(c);
+      if (!(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+      if (!(await canManageNotepad(notepadId, userId))) {
+        return c.json({ error: 'Only the owner can change member roles' }, 403);
+      }
+
+      const member = await updateMemberRole(notepadId, memberId, validUpdate.data.role);
+      if (!member) {
+        return c.json({ error: 'Member not found' }, 404);
+      }
+
+      return c.json(member, 200);
+    } catch (error) {
+      console.error('Error updating member:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .delete('/notepads/:id/members/:userId', authMiddleware, async (c) => {
+    const notepadId = Number(c.req.param('id'));
+    const memberId = Number(c.req.param('userId'));
+    if (isNaN(notepadId) || isNaN(memberId)) {
+      return c.json({ error: 'Invalid ID' }, 400);
+    }
+
+    try {
+      const userId = getUserId(c);
+      if (!(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+
+      // Members may leave a notepad themselves, everyone else needs to be the owner
+      if (memberId !== userId && !(await canManageNotepad(notepadId, userId))) {
+        return c.json({ error: 'Only the owner can remove members' }, 403);
+      }
+
+      const removed = await removeMember(notepadId, memberId, auditContext(c));
+      if (!removed) {
+        return c.json({ error: 'Member not found' }, 404);
+      }
+
+      return c.json({ success: true }, 200);
+    } catch (error) {
+      console.error('Error removing member:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
@@ -0,0 +1,26 @@
+import { Hono } from 'hono';
+import { swaggerUI } from '@hono/swagger-ui';
+import { generateOpenApiDocument } from '../openapi/spec.js';
+import type { AppEnv } from './middleware.js';
+
+// The document only changes with the code, so it is generated once
+const openApiDocument = generateOpenApiDocument();
+
+export const metaRoutes = new Hono<AppEnv>()
+  .get('/', (c) => {
+    return c.json({
+      message: 'Welcome to the Notepad API',
+      endpoints: {
+        notepads: '/notepads',
+        users: '/users',
+        auth: '/auth/login',
+        search: '/search?q=',
+        docs: '/docs',
+        openapi: '/openapi.json'
+      },
+    }, 200);
+  })
+  .get('/openapi.json', (c) => {
+    return c.json(openApiDocument, 200);
+  })
+  .get('/docs', swaggerUI({ url: '/openapi.json' }));
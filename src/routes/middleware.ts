@@ -0,0 +1,217 @@
+import { getConnInfo } from '@hono/node-server/conninfo';
+import { bodyLimit } from 'hono/body-limit';
+import type { Context, MiddlewareHandler, Next } from 'hono';
+import type { z, ZodTypeAny } from 'zod';
+import {
+  verifyToken,
+  TokenError,
+  TokenExpired,
+  BadSignature,
+  Malformed
+} from '../auth/jwt.js';
+import type { JwtSettings } from '../auth/jwt.js';
+import { createKeyRing } from '../auth/keyring.js';
+import { config } from '../config.js';
+import { rateLimit } from '../ratelimit/middleware.js';
+import type { UserRole } from '@prisma/client';
+import { isSessionActive } from '../Database/session.db.js';
+import { getUserById } from '../Database/user.db.js';
+import { hasRole } from '../auth/policy.js';
+
+// Variables the middlewares set on the context of every route
+export type AppEnv = {
+  Variables: {
+    userId: string;
+    sessionId: string;
+    role: UserRole; // Set by requireRole()
+  };
+};
+
+export const jwtSettings: JwtSettings = {
+  keyRing: createKeyRing(config.jwt.keys, config.jwt.signingKid),
+  issuer: config.jwt.issuer,
+  audience: config.jwt.audience,
+  clockSkewSeconds: config.jwt.clockSkewSeconds,
+};
+
+// Maps a rejected token to a 401 response, the code lets clients tell an expired token from a bad one
+const tokenErrorResponse = (c: Context, error: unknown) => {
+  if (error instanceof TokenExpired) {
+    return c.json({ error: 'Token expired', code: 'token_expired' }, 401);
+  }
+  if (error instanceof BadSignature) {
+    return c.json({ error: 'Invalid token signature', code: 'bad_signature' }, 401);
+  }
+  if (error instanceof Malformed) {
+    return c.json({ error: 'Malformed token', code: 'malformed_token' }, 401);
+  }
+  if (error instanceof TokenError) {
+    return c.json({ error: 'Invalid token', code: 'invalid_token' }, 401);
+  }
+
+  console.error('Error verifying token:', error);
+  return c.json({ error: 'Internal Server Error' }, 500);
+};
+
+const authenticate = async (c: Context, next: Next, required: boolean, allowQueryToken = false) => {
+  const queryToken = allowQueryToken ? c.req.query('access_token') : undefined;
+  const authHeader = c.req.header('Authorization') ?? (queryToken ? `Bearer ${queryToken}` : undefined);
+  if (!authHeader) {
+    if (required) {
+      return c.json({ error: 'Unauthorized' }, 401);
+    }
+    await next(); // Continue as an anonymous caller
+    return;
+  }
+
+  if (!authHeader.startsWith('Bearer ')) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  const token = authHeader.split(' ')[1];
+
+  let payload;
+  try {
+    payload = verifyToken(token, jwtSettings);
+  } catch (e) {
+    return tokenErrorResponse(c, e);
+  }
+
+  // Access tokens are tied to a session so they stop working as soon as the session is revoked
+  try {
+    if (!payload.sid || !(await isSessionActive(payload.sid, payload.userId))) {
+      return c.json({ error: 'Session has been revoked', code: 'session_revoked' }, 401);
+    }
+  } catch (error) {
+    console.error('Error checking session:', error);
+    return c.json({ error: 'Internal Server Error' }, 500);
+  }
+
+  c.set('userId', payload.userId); // Set the user ID for later use
+  c.set('sessionId', payload.sid);
+
+  await next(); // Proceed to the next middleware or handler
+};
+
+export const authMiddleware = (c: Context, next: Next) => authenticate(c, next, true);
+
+// Same as authMiddleware but lets anonymous callers through, a bad token is still rejected
+export const optionalAuthMiddleware = (c: Context, next: Next) => authenticate(c, next, false);
+
+// Same as optionalAuthMiddleware but also takes ?access_token=, browsers cannot set headers on an EventSource
+export const streamAuthMiddleware = (c: Context, next: Next) => authenticate(c, next, false, true);
+
+// Only lets users with at least the given site-wide role through, goes after authMiddleware.
+// The role is read on every request, so a demotion takes effect right away.
+export const requireRole = (minimum: UserRole) => async (c: Context, next: Next) => {
+  let user;
+  try {
+    user = await getUserById(Number(c.get('userId')));
+  } catch (error) {
+    console.error('Error checking role:', error);
+    return c.json({ error: 'Internal Server Error' }, 500);
+  }
+
+  if (!user || !hasRole(user.role, minimum)) {
+    return c.json({ error: 'Forbidden' }, 403);
+  }
+
+  c.set('role', user.role);
+  await next();
+};
+
+// Returns the IP of the caller, X-Forwarded-For is only used when the API runs behind a trusted proxy
+export const getClientIp = (c: Context): string | null => {
+  const forwardedFor = config.trustProxy ? c.req.header('X-Forwarded-For') : undefined;
+  const ip = forwardedFor ? forwardedFor.split(',')[0].trim() : null;
+  if (ip) {
+    return ip;
+  }
+
+  try {
+    return getConnInfo(c).remote.address ?? null;
+  } catch {
+    return null; // Not running behind the Node server, e.g. in app.request()
+  }
+};
+
+// Returns the user agent and IP of the caller, used to label sessions
+export const getClientInfo = (c: Context) => {
+  return { userAgent: c.req.header('User-Agent') ?? null, ip: getClientIp(c) };
+};
+
+// Rate limits for endpoints that take passwords or tokens, and for signing up
+export const authRateLimit = rateLimit({ name: 'auth', bucket: config.rateLimit.auth, key: getClientIp });
+export const signupRateLimit = rateLimit({ name: 'signup', bucket: config.rateLimit.signup, key: getClientIp });
+
+// Counts login attempts per account as well, so spreading a guessing attack over many IPs does not help
+export const loginRateLimit = rateLimit({
+  name: 'login',
+  bucket: config.rateLimit.login,
+  key: async (c) => {
+    const body = await c.req.json().catch(() => null); // The body is cached, the route reads it again
+    return typeof body?.email === 'string' ? body.email.toLowerCase() : null;
+  },
+});
+
+// Room for the multipart boundaries and part headers around an uploaded file
+const MULTIPART_OVERHEAD = 64 * 1024;
+
+/**
+ * Refuses multipart uploads whose body is larger than the file may be, before the body is read into memory
+ * @param {number} maxBytes - The largest file the route accepts
+ * @returns {MiddlewareHandler}
+ */
+export const uploadLimit = (maxBytes: number) => {
+  return bodyLimit({
+    maxSize: maxBytes + MULTIPART_OVERHEAD,
+    onError: (c) => c.json({ error: `The file must be at most ${maxBytes / 1024 / 1024} MB` }, 413),
+  });
+};
+
+/**
+ * Parses the JSON body of a request, answering 400 when it is not a JSON object.
+ * T is the body the route expects, it only types the request for the RPC client:
+ * handlers still validate c.req.valid('json') with their Zod schema.
+ * @returns {MiddlewareHandler}
+ */
+export const jsonBody = <T extends object>(): MiddlewareHandler<
+  AppEnv,
+  string,
+  { in: { json: T }; out: { json: Record<string, unknown> } }
+> => {
+  return async (c, next) => {
+    let body: unknown;
+    try {
+      body = await c.req.json();
+    } catch {
+      return c.json({ error: 'Invalid JSON' }, 400);
+    }
+
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+      return c.json({ error: 'Request body must be a JSON object' }, 400);
+    }
+
+    c.req.addValidatedData('json', body);
+    await next();
+  };
+};
+
+// The query parameters a Zod schema accepts as a client sends them, coerced values may be given as numbers
+export type QueryOf<S extends ZodTypeAny> = {
+  [K in keyof z.input<S>]: z.input<S>[K] extends string | undefined ? z.input<S>[K] : string | number;
+};
+
+/**
+ * Declares the query parameters of a route for the RPC client, handlers read and validate them as before
+ * @returns {MiddlewareHandler}
+ */
+export const queryParams = <T extends object>(): MiddlewareHandler<
+  AppEnv,
+  string,
+  { in: { query: T }; out: { query: T } }
+> => {
+  return async (_c, next) => {
+    await next();
+  };
+};
@@ -0,0 +1,408 @@
+import { Hono } from 'hono';
+import type { z } from 'zod';
+import { config } from '../config.js';
+import {
+  createNotepad,
+  getNotepads,
+  getNotepad,
+  validateNotepadCreation,
+  validateNotepadUpdate,
+  updateNotepad,
+  deleteNotepad,
+  getPublicNotepads
+} from '../Database/notepad.db.js';
+import type { NotepadToCreateSchema, NotepadToUpdateSchema } from '../Database/notepad.db.js';
+import { getNotesByNotepad } from '../Database/notes.db.js';
+import { getSharedNotepads } from '../Database/member.db.js';
+import { VersionConflict } from '../Database/concurrency.db.js';
+import { getNotepadForExport, validateExportQuery } from '../Database/export.db.js';
+import type { ExportQuerySchema } from '../Database/export.db.js';
+import type { ListQuerySchema } from '../Database/listQuery.db.js';
+import { importUpload } from '../Database/import.db.js';
+import { createReport, validateReportCreation } from '../Database/report.db.js';
+import type { ReportToCreateSchema } from '../Database/report.db.js';
+import { parseUpload, ImportError } from '../lib/import.js';
+import { exportFileName, exportHtml, exportJson, exportMarkdownArchive } from '../render/export.js';
+import {
+  canReadNotepad,
+  canWriteNotepad,
+  canManageNotepad,
+  canPublishNotepad
+} from '../auth/policy.js';
+import { authMiddleware, optionalAuthMiddleware, jsonBody, queryParams, uploadLimit } from './middleware.js';
+import type { AppEnv, QueryOf } from './middleware.js';
+import {
+  getUserId,
+  parseTagFilter,
+  parseListQuery,
+  parseRender,
+  withRender,
+  etag,
+  parseIfMatch,
+  preconditionFailed,
+  attachment,
+  auditContext
+} from './helpers.js';
+import type { RenderQuery, TagQuery } from './helpers.js';
+
+export const notepadRoutes = new Hono<AppEnv>()
+  // POST route for creating a new notepad
+  .post('/notepads', authMiddleware, jsonBody<Omit<z.input<typeof NotepadToCreateSchema>, 'ownerId'>>(), async (c) => {
+    const notepadData = c.req.valid('json');
+
+    // Validate the incoming data using Zod, the notepad is always owned by the caller
+    const validationResult = validateNotepadCreation({ ...notepadData, ownerId: getUserId(c) });
+    if (!validationResult.success) {
+      return c.json({ error: validationResult.error.errors }, 400); // Return validation errors if any
+    }
+
+    // Extract valid data
+    const { title, description, isPublic, ownerId, tags } = validationResult.data;
+
+    try {
+      if (isPublic && !(await canPublishNotepad(ownerId))) {
+        return c.json({ error: 'Verify your email before publishing notepads' }, 403);
+      }
+
+      // Create the notepad and return the result
+      const newNotepad = await createNotepad({
+        title,
+        description,
+        isPublic: isPublic || false, // Default to false if not provided
+        ownerId,
+        tags,
+      });
+
+      return c.json(newNotepad, 201); // Return the created notepad with status code 201
+    } catch (error) {
+      console.error('Error creating notepad:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // DELETE route for deleting a notepad by ID
+  .delete('/notepads/:id', authMiddleware, async (c) => {
+    const notepadId = Number(c.req.param('id')); // Get the notepad ID from the URL parameters
+
+    if (isNaN(notepadId)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400); // If the ID is invalid, return an error
+    }
+
+    const userId = getUserId(c);
+
+    try {
+      // Private notepads are hidden from everyone but the owner
+      if (!(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+      if (!(await canManageNotepad(notepadId, userId))) {
+        return c.json({ error: 'You do not have permission to delete this notepad' }, 403); // Return an error if the user does not own the notepad
+      }
+
+      // Delete the notepad and return the result
+      const deletedNotepad = await deleteNotepad(notepadId, auditContext(c), parseIfMatch(c));
+
+      if (!deletedNotepad) {
+        return c.json({ error: 'Notepad not found' }, 404); // If the notepad doesn't exist, return a 404 error
+      }
+
+      return c.json({ message: 'Notepad moved to trash' }, 200); // Return success message
+    } catch (error) {
+      if (error instanceof VersionConflict) {
+        return preconditionFailed(c, await getNotepad(notepadId));
+      }
+      console.error('Error deleting notepad:', error);
+      return c.json({ error: 'Internal Server Error' }, 500); // Handle server errors
+    }
+  })
+  .get('/user/notepads', authMiddleware, queryParams<QueryOf<typeof ListQuerySchema> & TagQuery>(), async (c) => {
+    const query = parseListQuery(c);
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', errors: query.error.flatten() }, 400);
+    }
+
+    const tagFilter = parseTagFilter(c);
+    if (!tagFilter.success) {
+      return c.json({ error: 'Invalid tag filter', errors: tagFilter.error.flatten() }, 400);
+    }
+
+    try {
+      const userId = Number(c.get('userId'));
+      const { page, limit } = query.data;
+
+      const { notepads, total, next, prev } = await getNotepads(query.data, userId, tagFilter.data);
+      const totalPages = Math.ceil(total / limit);
+
+      return c.json({
+        data: notepads,
+        pagination: { page, limit, total, totalPages },
+        next,
+        prev,
+      }, 200);
+    } catch (error) {
+      console.error('Error fetching user notepads:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .get('/user/shared-notepads', authMiddleware, queryParams<Pick<QueryOf<typeof ListQuerySchema>, 'limit' | 'page'>>(), async (c) => {
+    const query = parseListQuery(c);
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', errors: query.error.flatten() }, 400);
+    }
+
+    try {
+      const userId = Number(c.get('userId'));
+      const { limit, page } = query.data;
+
+      const { notepads, total } = await getSharedNotepads(userId, limit, page);
+      const totalPages = Math.ceil(total / limit);
+
+      return c.json({
+        data: notepads,
+        pagination: { page, limit, total, totalPages },
+      }, 200);
+    } catch (error) {
+      console.error('Error fetching shared notepads:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .get('/public/notepads', queryParams<QueryOf<typeof ListQuerySchema> & TagQuery>(), async (c) => {
+    const query = parseListQuery(c);
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', errors: query.error.flatten() }, 400);
+    }
+
+    const tagFilter = parseTagFilter(c);
+    if (!tagFilter.success) {
+      return c.json({ error: 'Invalid tag filter', errors: tagFilter.error.flatten() }, 400);
+    }
+
+    try {
+      const { page, limit } = query.data;
+
+      const { notepads, total, next, prev } = await getPublicNotepads(query.data, tagFilter.data);
+      const totalPages = Math.ceil(total / limit);
+
+      return c.json({
+        data: notepads,
+        pagination: { page, limit, total, totalPages },
+        next,
+        prev,
+      }, 200);
+    } catch (error) {
+      console.error('Error fetching public notepads:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .get('/notepads/:id', optionalAuthMiddleware, queryParams<RenderQuery>(), async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400);
+    }
+
+    const render = parseRender(c);
+    if (render === null) {
+      return c.json({ error: 'Invalid render option, only html is supported' }, 400);
+    }
+
+    try {
+      const notepad = await getNotepad(id);
+      if (!notepad || !(await canReadNotepad(id, getUserId(c)))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+
+      const { notes } = await getNotesByNotepad(notepad.id, { limit: 1000, page: 1, sort: 'position', order: 'asc', cursor: undefined });
+      c.header('ETag', etag(notepad.version));
+      return c.json({ ...notepad, notes: notes.map((note) => withRender(note, render)) }, 200);
+    } catch (error) {
+      console.error('Error fetching notepad with notes:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/notepads/import', authMiddleware, uploadLimit(config.imports.maxUploadBytes), async (c) => {
+    let body;
+    try {
+      body = await c.req.parseBody();
+    } catch {
+      return c.json({ error: 'Expected a multipart/form-data upload' }, 400);
+    }
+
+    const file = body['file'];
+    if (!(file instanceof File)) {
+      return c.json({ error: 'A file is required in the "file" field' }, 400);
+    }
+    if (file.size > config.imports.maxUploadBytes) {
+      return c.json({ error: `The file must be at most ${config.imports.maxUploadBytes / 1024 / 1024} MB` }, 413);
+    }
+
+    const userId = Number(c.get('userId'));
+    let notepadId: number | undefined;
+
+    try {
+      // Notes can go into an existing notepad the caller can edit, otherwise a new one is created
+      if (typeof body['notepadId'] === 'string' && body['notepadId'] !== '') {
+        notepadId = parseInt(body['notepadId']);
+        if (isNaN(notepadId)) {
+          return c.json({ error: 'Invalid notepad ID' }, 400);
+        }
+        if (!(await canReadNotepad(notepadId, userId))) {
+          return c.json({ error: 'Notepad not found' }, 404);
+        }
+        if (!(await canWriteNotepad(notepadId, userId))) {
+          return c.json({ error: 'You do not have permission to add notes to this notepad' }, 403);
+        }
+      }
+
+      const upload = parseUpload(file.name, new Uint8Array(await file.arrayBuffer()), {
+        maxBytes: config.imports.maxExtractedBytes,
+        maxNotes: config.imports.maxNotes,
+      });
+
+      const report = await importUpload(upload, userId, notepadId);
+      return c.json(report, report.notes > 0 || report.notepads > 0 ? 201 : 200);
+    } catch (error) {
+      if (error instanceof ImportError) {
+        return c.json({ error: error.message }, 400);
+      }
+      console.error('Error importing notes:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .get('/notepads/:id/export', optionalAuthMiddleware, queryParams<QueryOf<typeof ExportQuerySchema>>(), async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400);
+    }
+
+    const query = validateExportQuery(c.req.query());
+    if (!query.success) {
+      return c.json({ error: 'Invalid export format', errors: query.error.flatten() }, 400);
+    }
+
+    try {
+      // Same access rules as GET /notepads/:id
+      if (!(await canReadNotepad(id, getUserId(c)))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+
+      const notepad = await getNotepadForExport(id);
+      if (!notepad) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+
+      switch (query.data.format) {
+        case 'markdown':
+          return c.body(exportMarkdownArchive(notepad), 200, {
+            'Content-Type': 'application/zip',
+            'Content-Disposition': attachment(exportFileName(notepad, 'zip')),
+          });
+        case 'html':
+          return c.body(exportHtml(notepad), 200, {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Content-Disposition': attachment(exportFileName(notepad, 'html')),
+          });
+        case 'json':
+          return c.body(exportJson(notepad), 200, {
+            'Content-Type': 'application/json; charset=utf-8',
+            'Content-Disposition': attachment(exportFileName(notepad, 'json')),
+          });
+      }
+    } catch (error) {
+      console.error('Error exporting notepad:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // PUT route for updating a notepad by ID
+  .put('/notepads/:id', authMiddleware, jsonBody<z.input<typeof NotepadToUpdateSchema>>(), async (c) => {
+    const notepadId = Number(c.req.param('id')); // Get the notepad ID from the URL parameters
+
+    if (isNaN(notepadId)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400); // If the ID is invalid, return an error
+    }
+
+    const updateData = c.req.valid('json');
+
+    const userId = getUserId(c);
+
+    try {
+      // Private notepads are hidden from everyone but the owner
+      if (!(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+      if (!(await canWriteNotepad(notepadId, userId))) {
+        return c.json({ error: 'You do not have permission to update this notepad' }, 403); // Return an error if the user is neither the owner nor an editor
+      }
+    } catch (error) {
+      console.error('Error checking notepad access:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+
+    // Validate the update data using the Zod schema
+    const validationResult = validateNotepadUpdate(updateData);
+    if (!validationResult.success) {
+      return c.json({ error: validationResult.error.errors }, 400); // Return validation errors
+    }
+
+    // Only the owner may change the visibility of a notepad
+    if (validationResult.data.isPublic !== undefined) {
+      try {
+        if (!(await canManageNotepad(notepadId, userId))) {
+          return c.json({ error: 'Only the owner can change the visibility of this notepad' }, 403);
+        }
+        if (validationResult.data.isPublic && !(await canPublishNotepad(userId))) {
+          return c.json({ error: 'Verify your email before publishing notepads' }, 403);
+        }
+      } catch (error) {
+        console.error('Error checking notepad access:', error);
+        return c.json({ error: 'Internal Server Error' }, 500);
+      }
+    }
+
+    try {
+      // Update the notepad and return the result
+      const updatedNotepad = await updateNotepad(notepadId, validationResult.data, auditContext(c), parseIfMatch(c));
+
+      if (!updatedNotepad) {
+        return c.json({ error: 'Notepad not found' }, 404); // If the notepad doesn't exist, return a 404 error
+      }
+
+      c.header('ETag', etag(updatedNotepad.version));
+      return c.json(updatedNotepad, 200); // Return the updated notepad
+    } catch (error) {
+      if (error instanceof VersionConflict) {
+        return preconditionFailed(c, await getNotepad(notepadId));
+      }
+      console.error('Error updating notepad:', error);
+      return c.json({ error: 'Internal Server Error' }, 500); // Handle server errors
+    }
+  })
+  // Reports a notepad to the moderators, see /admin/reports
+  .post('/notepads/:id/report', authMiddleware, jsonBody<z.input<typeof ReportToCreateSchema>>(), async (c) => {
+    const notepadId = Number(c.req.param('id'));
+    if (isNaN(notepadId)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400);
+    }
+
+    const report = validateReportCreation(c.req.valid('json'));
+    if (!report.success) {
+      return c.json({ error: 'Invalid data', errors: report.error.flatten() }, 400);
+    }
+
+    const userId = getUserId(c);
+
+    try {
+      // Only notepads the caller can see can be reported
+      if (userId === undefined || !(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+
+      const created = await createReport(notepadId, userId, report.data);
+      if (!created) {
+        return c.json({ error: 'You have already reported this notepad' }, 409);
+      }
+
+      return c.json({ id: created.id, reason: created.reason, status: created.status, createdAt: created.createdAt }, 201);
+    } catch (error) {
+      console.error('Error reporting notepad:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
@@ -0,0 +1,286 @@
+import { Hono } from 'hono';
+import type { z } from 'zod';
+import {
+  createNote,
+  getNotesByNotepad,
+  getNoteById,
+  validateNoteCreation,
+  validateNoteUpdate,
+  updateNote,
+  deleteNote,
+  reorderNote,
+  moveNote,
+  MissingNeighbour,
+  validateNoteReorder,
+  validateNoteMove
+} from '../Database/notes.db.js';
+import type { NoteToCreateSchema, NoteToUpdateSchema, NoteReorderSchema, NoteMoveSchema } from '../Database/notes.db.js';
+import { VersionConflict } from '../Database/concurrency.db.js';
+import type { NoteListQuerySchema } from '../Database/listQuery.db.js';
+import { canReadNotepad, canWriteNotepad, canReadNote, canWriteNote } from '../auth/policy.js';
+import { authMiddleware, optionalAuthMiddleware, jsonBody, queryParams } from './middleware.js';
+import type { AppEnv, QueryOf } from './middleware.js';
+import {
+  getUserId,
+  parseTagFilter,
+  parseNoteListQuery,
+  parseRender,
+  withRender,
+  etag,
+  parseIfMatch,
+  preconditionFailed,
+  auditContext
+} from './helpers.js';
+import type { RenderQuery, TagQuery } from './helpers.js';
+
+export const noteRoutes = new Hono<AppEnv>()
+  .get('/notepads/:notepadId/notes', optionalAuthMiddleware, queryParams<QueryOf<typeof NoteListQuerySchema> & TagQuery & RenderQuery>(), async (c) => {
+    const notepadId = parseInt(c.req.param('notepadId'));
+    if (isNaN(notepadId)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400);
+    }
+
+    const query = parseNoteListQuery(c);
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', errors: query.error.flatten() }, 400);
+    }
+
+    const tagFilter = parseTagFilter(c);
+    if (!tagFilter.success) {
+      return c.json({ error: 'Invalid tag filter', errors: tagFilter.error.flatten() }, 400);
+    }
+
+    const render = parseRender(c);
+    if (render === null) {
+      return c.json({ error: 'Invalid render option, only html is supported' }, 400);
+    }
+
+    try {
+      if (!(await canReadNotepad(notepadId, getUserId(c)))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+
+      const { page, limit } = query.data;
+      const { notes, total, next, prev } = await getNotesByNotepad(notepadId, query.data, tagFilter.data);
+      const totalPages = Math.ceil(total / limit);
+      return c.json({
+        data: notes.map((note) => withRender(note, render)),
+        pagination: { page, limit, total, totalPages },
+        next,
+        prev,
+      }, 200);
+    } catch (error) {
+      console.error('Error fetching notes:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .get('/notes/:id', optionalAuthMiddleware, queryParams<RenderQuery>(), async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid note ID' }, 400);
+    }
+
+    const render = parseRender(c);
+    if (render === null) {
+      return c.json({ error: 'Invalid render option, only html is supported' }, 400);
+    }
+
+    try {
+      const note = await getNoteById(id);
+      if (!note || !(await canReadNotepad(note.notepadId, getUserId(c)))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+      c.header('ETag', etag(note.version));
+      return c.json(withRender(note, render), 200);
+    } catch (error) {
+      console.error('Error fetching note:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/notepads/:notepadId/notes', authMiddleware, jsonBody<Omit<z.input<typeof NoteToCreateSchema>, 'notepadId'>>(), async (c) => {
+    const notepadId = Number(c.req.param('notepadId')); // Get notepadId from the URL
+    if (isNaN(notepadId)) {
+      return c.json({ error: 'Invalid notepad ID' }, 400);
+    }
+
+    const noteData = c.req.valid('json');
+
+    // Add the notepadId to the data
+    const validNote = validateNoteCreation({ ...noteData, notepadId });
+    if (!validNote.success) {
+      return c.json({ error: 'Invalid data', errors: validNote.error.flatten() }, 400);
+    }
+
+    try {
+      const userId = getUserId(c);
+      if (!(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+      if (!(await canWriteNotepad(notepadId, userId))) {
+        return c.json({ error: 'You do not have permission to add notes to this notepad' }, 403);
+      }
+
+      // Create the note with the validated data
+      const createdNote = await createNote(validNote.data, userId);
+      return c.json(createdNote, 201);
+    } catch (error) {
+      console.error('Error creating note:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .patch('/notes/:id', authMiddleware, jsonBody<z.input<typeof NoteToUpdateSchema>>(), async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid note ID' }, 400);
+    }
+
+    const updateData = c.req.valid('json');
+
+    const validNote = validateNoteUpdate(updateData);
+    if (!validNote.success) {
+      return c.json({ error: 'Invalid data', errors: validNote.error.flatten() }, 400);
+    }
+
+    try {
+      const userId = getUserId(c);
+      if (!(await canReadNote(id, userId))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+      if (!(await canWriteNote(id, userId))) {
+        return c.json({ error: 'You do not have permission to update this note' }, 403);
+      }
+
+      const updatedNote = await updateNote(id, validNote.data, userId, parseIfMatch(c));
+      if (!updatedNote) return c.json({ error: 'Note not found' }, 404);
+      c.header('ETag', etag(updatedNote.version));
+      return c.json(updatedNote, 200);
+    } catch (error) {
+      if (error instanceof VersionConflict) {
+        return preconditionFailed(c, await getNoteById(id));
+      }
+      console.error('Error updating note:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .delete('/notes/:id', authMiddleware, async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ success: false, error: 'Invalid note ID' }, 400);
+    }
+
+    try {
+      const userId = getUserId(c);
+      if (!(await canReadNote(id, userId))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+      if (!(await canWriteNote(id, userId))) {
+        return c.json({ success: false, error: 'You do not have permission to delete this note' }, 403);
+      }
+
+      const deletedNote = await deleteNote(id, auditContext(c), parseIfMatch(c));
+      if (!deletedNote) return c.json({ error: 'Note not found' }, 404);
+      return c.json({ success: true }, 200);
+    } catch (error) {
+      if (error instanceof VersionConflict) {
+        return preconditionFailed(c, await getNoteById(id));
+      }
+      console.error('Error deleting note:', error);
+      return c.json({ success: false, error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Puts a note after another one of the same notepad, or at the top
+  .post('/notes/:id/reorder', authMiddleware, jsonBody<z.input<typeof NoteReorderSchema>>(), async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid note ID' }, 400);
+    }
+
+    const reorder = validateNoteReorder(c.req.valid('json'));
+    if (!reorder.success) {
+      return c.json({ error: 'Invalid data', errors: reorder.error.flatten() }, 400);
+    }
+
+    const { after } = reorder.data;
+    if (after === id) {
+      return c.json({ error: 'A note cannot be moved after itself' }, 400);
+    }
+
+    try {
+      const userId = getUserId(c);
+      if (!(await canReadNote(id, userId))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+      if (!(await canWriteNote(id, userId))) {
+        return c.json({ error: 'You do not have permission to reorder this note' }, 403);
+      }
+
+      if (after !== null) {
+        const [note, previous] = await Promise.all([getNoteById(id), getNoteById(after)]);
+        if (!note || !previous || previous.notepadId !== note.notepadId) {
+          return c.json({ error: 'The note to move it after must be in the same notepad' }, 400);
+        }
+      }
+
+      const movedNote = await reorderNote(id, after, parseIfMatch(c));
+      if (!movedNote) return c.json({ error: 'Note not found' }, 404);
+      c.header('ETag', etag(movedNote.version));
+      return c.json(movedNote, 200);
+    } catch (error) {
+      if (error instanceof VersionConflict) {
+        return preconditionFailed(c, await getNoteById(id));
+      }
+      if (error instanceof MissingNeighbour) {
+        return c.json({ error: 'The note to move it after is no longer in this notepad' }, 409);
+      }
+      console.error('Error reordering note:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Moves a note to the top of another notepad the caller can write to
+  .post('/notes/:id/move', authMiddleware, jsonBody<z.input<typeof NoteMoveSchema>>(), async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid note ID' }, 400);
+    }
+
+    const move = validateNoteMove(c.req.valid('json'));
+    if (!move.success) {
+      return c.json({ error: 'Invalid data', errors: move.error.flatten() }, 400);
+    }
+
+    const { notepadId } = move.data;
+
+    try {
+      const userId = getUserId(c);
+      if (!(await canReadNote(id, userId))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+      if (!(await canWriteNote(id, userId))) {
+        return c.json({ error: 'You do not have permission to move this note' }, 403);
+      }
+      if (!(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+      if (!(await canWriteNotepad(notepadId, userId))) {
+        return c.json({ error: 'You do not have permission to add notes to this notepad' }, 403);
+      }
+
+      const note = await getNoteById(id);
+      if (!note) return c.json({ error: 'Note not found' }, 404);
+      if (note.notepadId === notepadId) {
+        c.header('ETag', etag(note.version));
+        return c.json(note, 200); // Already there
+      }
+
+      const movedNote = await moveNote(id, notepadId, parseIfMatch(c));
+      if (!movedNote) return c.json({ error: 'Note not found' }, 404);
+      c.header('ETag', etag(movedNote.version));
+      return c.json(movedNote, 200);
+    } catch (error) {
+      if (error instanceof VersionConflict) {
+        return preconditionFailed(c, await getNoteById(id));
+      }
+      console.error('Error moving note:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
@@ -0,0 +1,129 @@
+import { Hono } from 'hono';
+import { updateNote } from '../Database/notes.db.js';
+import { getRevisions, getRevision, validateRevisionQuery, validateRevisionDiffQuery } from '../Database/revision.db.js';
+import type { RevisionQuerySchema, RevisionDiffQuerySchema } from '../Database/revision.db.js';
+import { diffLines } from '../lib/diff.js';
+import { canReadNote, canWriteNote } from '../auth/policy.js';
+import { authMiddleware, optionalAuthMiddleware, queryParams } from './middleware.js';
+import type { AppEnv, QueryOf } from './middleware.js';
+import { getUserId, etag } from './helpers.js';
+
+export const revisionRoutes = new Hono<AppEnv>()
+  .get('/notes/:id/revisions', optionalAuthMiddleware, queryParams<QueryOf<typeof RevisionQuerySchema>>(), async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid note ID' }, 400);
+    }
+
+    const query = validateRevisionQuery(c.req.query());
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', errors: query.error.flatten() }, 400);
+    }
+
+    try {
+      const { limit, page } = query.data;
+      if (!(await canReadNote(id, getUserId(c)))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+
+      const { revisions, total } = await getRevisions(id, limit, page);
+      const totalPages = Math.ceil(total / limit);
+      return c.json({
+        data: revisions,
+        pagination: { page, limit, total, totalPages },
+      }, 200);
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .get('/notes/:id/revisions/:rev', optionalAuthMiddleware, async (c) => {
+    const id = parseInt(c.req.param('id'));
+    const rev = parseInt(c.req.param('rev'));
+    if (isNaN(id) || isNaN(rev)) {
+      return c.json({ error: 'Invalid ID' }, 400);
+    }
+
+    try {
+      if (!(await canReadNote(id, getUserId(c)))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+
+      const revision = await getRevision(id, rev);
+      if (!revision) return c.json({ error: 'Revision not found' }, 404);
+      return c.json(revision, 200);
+    } catch (error) {
+      console.error('Error fetching revision:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Line level diff between two revisions, ?from=1&to=3 (to defaults to the latest revision)
+  .get('/notes/:id/diff', optionalAuthMiddleware, queryParams<QueryOf<typeof RevisionDiffQuerySchema>>(), async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid note ID' }, 400);
+    }
+
+    const validQuery = validateRevisionDiffQuery(c.req.query());
+    if (!validQuery.success) {
+      return c.json({ error: 'Invalid query', errors: validQuery.error.flatten() }, 400);
+    }
+
+    try {
+      if (!(await canReadNote(id, getUserId(c)))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+
+      const from = await getRevision(id, validQuery.data.from);
+      const to = await getRevision(id, validQuery.data.to);
+      if (!from || !to) return c.json({ error: 'Revision not found' }, 404);
+
+      return c.json({
+        from: from.revision,
+        to: to.revision,
+        title: from.title === to.title ? null : { from: from.title, to: to.title },
+        tags: {
+          added: to.tags.filter((tag) => !from.tags.includes(tag)),
+          removed: from.tags.filter((tag) => !to.tags.includes(tag)),
+        },
+        lines: diffLines(from.content, to.content),
+      }, 200);
+    } catch (error) {
+      console.error('Error diffing revisions:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/notes/:id/revisions/:rev/restore', authMiddleware, async (c) => {
+    const id = parseInt(c.req.param('id'));
+    const rev = parseInt(c.req.param('rev'));
+    if (isNaN(id) || isNaN(rev)) {
+      return c.json({ error: 'Invalid ID' }, 400);
+    }
+
+    try {
+      const userId = getUserId(c);
+      if (!(await canReadNote(id, userId))) {
+        return c.json({ error: 'Note not found' }, 404);
+      }
+      if (!(await canWriteNote(id, userId))) {
+        return c.json({ error: 'You do not have permission to update this note' }, 403);
+      }
+
+      const revision = await getRevision(id, rev);
+      if (!revision) return c.json({ error: 'Revision not found' }, 404);
+
+      // Restoring is an ordinary update, so it becomes the newest revision and can itself be undone
+      const restoredNote = await updateNote(id, {
+        title: revision.title,
+        content: revision.content,
+        format: revision.format,
+        tags: revision.tags,
+      }, userId);
+      if (!restoredNote) return c.json({ error: 'Note not found' }, 404);
+      c.header('ETag', etag(restoredNote.version));
+      return c.json(restoredNote, 200);
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
@@ -0,0 +1,28 @@
+import { Hono } from 'hono';
+import { search, validateSearchQuery } from '../Database/search.db.js';
+import type { SearchQuerySchema } from '../Database/search.db.js';
+import { optionalAuthMiddleware, queryParams } from './middleware.js';
+import type { AppEnv, QueryOf } from './middleware.js';
+import { getUserId } from './helpers.js';
+
+export const searchRoutes = new Hono<AppEnv>()
+  .get('/search', optionalAuthMiddleware, queryParams<QueryOf<typeof SearchQuerySchema>>(), async (c) => {
+    const validQuery = validateSearchQuery(c.req.query());
+    if (!validQuery.success) {
+      return c.json({ error: 'Invalid query', errors: validQuery.error.flatten() }, 400);
+    }
+
+    try {
+      // Anonymous callers only see public notepads, signed in users also their own and shared ones
+      const { results, total, page, limit } = await search(validQuery.data, getUserId(c));
+      const totalPages = Math.ceil(total / limit);
+
+      return c.json({
+        data: results,
+        pagination: { page, limit, total, totalPages },
+      }, 200);
+    } catch (error) {
+      console.error('Error searching:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
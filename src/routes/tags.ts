@@ -0,0 +1,16 @@
+import { Hono } from 'hono';
+import { getTagUsage } from '../Database/tag.db.js';
+import { authMiddleware } from './middleware.js';
+import type { AppEnv } from './middleware.js';
+
+export const tagRoutes = new Hono<AppEnv>()
+  .get('/tags', authMiddleware, async (c) => {
+    try {
+      // Counts only cover notepads the caller owns or that are shared with them
+      const tags = await getTagUsage(Number(c.get('userId')));
+      return c.json({ data: tags }, 200);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
@@ -0,0 +1,111 @@
+import { Hono } from 'hono';
+import { config } from '../config.js';
+import { getNotepad } from '../Database/notepad.db.js';
+import { getNoteById } from '../Database/notes.db.js';
+import {
+  getTrash,
+  getTrashedNote,
+  getTrashedNotepad,
+  restoreNote,
+  restoreNotepad,
+  purgeNote,
+  purgeNotepad,
+  validateTrashItemType
+} from '../Database/trash.db.js';
+import { canWriteNotepad, canManageNotepad } from '../auth/policy.js';
+import { authMiddleware } from './middleware.js';
+import type { AppEnv } from './middleware.js';
+import { getUserId, auditContext } from './helpers.js';
+
+/**
+ * Checks that an item is in the trash and that the caller may restore or purge it.
+ * Notepads can only be handled by their owner, notes by anyone who can edit their notepad.
+ * @returns {Promise<{ status: 404 | 409 } | null>} - The error status, or null if the caller may go ahead
+ */
+async function checkTrashAccess(
+  type: 'note' | 'notepad',
+  id: number,
+  userId: number | undefined,
+  restoring: boolean
+): Promise<{ status: 404 | 409 } | null> {
+  if (type === 'notepad') {
+    const notepad = await getTrashedNotepad(id);
+    return notepad && (await canManageNotepad(id, userId)) ? null : { status: 404 };
+  }
+
+  const note = await getTrashedNote(id);
+  if (!note || !(await canWriteNotepad(note.notepadId, userId))) {
+    return { status: 404 };
+  }
+
+  // A note cannot come back into a notepad that is itself in the trash
+  return restoring && note.notepadDeleted ? { status: 409 } : null;
+}
+
+export const trashRoutes = new Hono<AppEnv>()
+  .get('/trash', authMiddleware, async (c) => {
+    try {
+      const items = await getTrash(Number(c.get('userId')));
+      return c.json({ data: items, retentionDays: config.trash.retentionDays }, 200);
+    } catch (error) {
+      console.error('Error fetching trash:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/trash/:type/:id/restore', authMiddleware, async (c) => {
+    const type = validateTrashItemType(c.req.param('type'));
+    const id = parseInt(c.req.param('id'));
+    if (!type.success) {
+      return c.json({ error: 'Type must be note or notepad' }, 400);
+    }
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid ID' }, 400);
+    }
+
+    try {
+      const denied = await checkTrashAccess(type.data, id, getUserId(c), true);
+      if (denied?.status === 409) {
+        return c.json({ error: 'The notepad of this note is in the trash, restore the notepad first' }, 409);
+      }
+      if (denied) {
+        return c.json({ error: 'Item not found in trash' }, 404);
+      }
+
+      const restored = type.data === 'notepad' ? await restoreNotepad(id) : await restoreNote(id);
+      if (!restored) {
+        return c.json({ error: 'Item not found in trash' }, 404);
+      }
+
+      const item = type.data === 'notepad' ? await getNotepad(id) : await getNoteById(id);
+      return c.json({ data: item }, 200);
+    } catch (error) {
+      console.error('Error restoring from trash:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .delete('/trash/:type/:id', authMiddleware, async (c) => {
+    const type = validateTrashItemType(c.req.param('type'));
+    const id = parseInt(c.req.param('id'));
+    if (!type.success) {
+      return c.json({ error: 'Type must be note or notepad' }, 400);
+    }
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid ID' }, 400);
+    }
+
+    try {
+      if (await checkTrashAccess(type.data, id, getUserId(c), false)) {
+        return c.json({ error: 'Item not found in trash' }, 404);
+      }
+
+      const purged = type.data === 'notepad' ? await purgeNotepad(id, auditContext(c)) : await purgeNote(id, auditContext(c));
+      if (!purged) {
+        return c.json({ error: 'Item not found in trash' }, 404);
+      }
+
+      return c.json({ message: 'Permanently deleted' }, 200);
+    } catch (error) {
+      console.error('Error purging from trash:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
@@ -0,0 +1,150 @@
+import { Hono } from 'hono';
+import type { z } from 'zod';
+import {
+  createUser,
+  getUserById,
+  validateUserCreation,
+  validateUserUpdate,
+  validateUserDeletion,
+  updateUser,
+  deleteUser,
+  verifyPassword,
+  isUsernameAvailable,
+  isEmailAvailable
+} from '../Database/user.db.js';
+import type {
+  UserToCreateSchema,
+  UserToDeleteSchema,
+  UserToUpdateSchema
+} from '../Database/user.db.js';
+import { revokeAllSessions } from '../Database/session.db.js';
+import { getActivity, validateActivityQuery } from '../Database/audit.db.js';
+import type { ActivityQuerySchema } from '../Database/audit.db.js';
+import { authMiddleware, signupRateLimit, jsonBody, queryParams } from './middleware.js';
+import type { AppEnv, QueryOf } from './middleware.js';
+import { startSession, sendVerificationEmail, auditContext } from './helpers.js';
+
+export const userRoutes = new Hono<AppEnv>()
+  .post('/users', signupRateLimit, jsonBody<z.input<typeof UserToCreateSchema>>(), async (c) => {
+    const userData = c.req.valid('json');
+
+    const validUser = validateUserCreation(userData);
+    if (!validUser.success) {
+      return c.json({ error: 'Invalid data', errors: validUser.error.flatten() }, 400);
+    }
+
+    try {
+      if (!(await isUsernameAvailable(validUser.data.username))) {
+        return c.json({ error: 'Username already taken' }, 400);
+      }
+      if (!(await isEmailAvailable(validUser.data.email))) {
+        return c.json({ error: 'Email already registered' }, 400);
+      }
+      const createdUser = await createUser(validUser.data, auditContext(c));
+
+      // The account works right away, a failed email can be sent again through the resend endpoint
+      await sendVerificationEmail(createdUser.id, createdUser.email)
+        .catch((error) => console.error('Error sending verification email:', error));
+
+      return c.json(createdUser, 201);
+    } catch (error) {
+      console.error('Error creating user:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .get('/users/me', authMiddleware, async (c) => {
+    try {
+      const user = await getUserById(Number(c.get('userId')));
+      if (!user) return c.json({ error: 'User not found' }, 404);
+      return c.json(user, 200);
+    } catch (error) {
+      console.error('Error fetching user:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Logins, failed logins, deletions and visibility changes of the caller, and what happened to their account
+  .get('/users/me/activity', authMiddleware, queryParams<QueryOf<typeof ActivityQuerySchema>>(), async (c) => {
+    const query = validateActivityQuery(c.req.query());
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', errors: query.error.flatten() }, 400);
+    }
+
+    try {
+      const { data, next } = await getActivity(Number(c.get('userId')), query.data);
+      return c.json({ data, next }, 200);
+    } catch (error) {
+      console.error('Error fetching activity:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .patch('/users/me', authMiddleware, jsonBody<z.input<typeof UserToUpdateSchema>>(), async (c) => {
+    const updateData = c.req.valid('json');
+
+    const validUpdate = validateUserUpdate(updateData);
+    if (!validUpdate.success) {
+      return c.json({ error: 'Invalid data', errors: validUpdate.error.flatten() }, 400);
+    }
+
+    const userId = Number(c.get('userId'));
+    const { username, email, password, currentPassword } = validUpdate.data;
+
+    try {
+      const user = await getUserById(userId);
+      if (!user) return c.json({ error: 'User not found' }, 404);
+
+      // Email and password changes must be confirmed with the current password
+      if ((email !== undefined || password !== undefined) && !(await verifyPassword(userId, currentPassword ?? ''))) {
+        return c.json({ error: 'Current password is incorrect' }, 403);
+      }
+
+      if (username !== undefined && username !== user.username && !(await isUsernameAvailable(username))) {
+        return c.json({ error: 'Username already taken' }, 400);
+      }
+      if (email !== undefined && email !== user.email && !(await isEmailAvailable(email))) {
+        return c.json({ error: 'Email already registered' }, 400);
+      }
+
+      const updatedUser = await updateUser(userId, { username, email, password });
+      if (!updatedUser) return c.json({ error: 'User not found' }, 404);
+
+      if (email !== undefined && email !== user.email) {
+        await sendVerificationEmail(userId, updatedUser.email)
+          .catch((error) => console.error('Error sending verification email:', error));
+      }
+
+      // A new password logs out every device, the caller gets a fresh session instead
+      if (password !== undefined) {
+        await revokeAllSessions(userId);
+        const tokens = await startSession(c, userId);
+        return c.json({ user: updatedUser, ...tokens }, 200);
+      }
+
+      return c.json({ user: updatedUser }, 200);
+    } catch (error) {
+      console.error('Error updating user:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .delete('/users/me', authMiddleware, jsonBody<z.input<typeof UserToDeleteSchema>>(), async (c) => {
+    const deleteData = c.req.valid('json');
+
+    const validDelete = validateUserDeletion(deleteData);
+    if (!validDelete.success) {
+      return c.json({ error: 'Invalid data', errors: validDelete.error.flatten() }, 400);
+    }
+
+    const userId = Number(c.get('userId'));
+
+    try {
+      if (!(await verifyPassword(userId, validDelete.data.currentPassword))) {
+        return c.json({ error: 'Current password is incorrect' }, 403);
+      }
+
+      const deletedUser = await deleteUser(userId, auditContext(c));
+      if (!deletedUser) return c.json({ error: 'User not found' }, 404);
+      return c.json({ success: true }, 200);
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
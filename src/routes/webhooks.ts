@@ -0,0 +1,162 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { z } from 'zod';
+import { sendTestEvent } from '../webhooks/dispatcher.js';
+import { checkWebhookTarget } from '../webhooks/target.js';
+import {
+  createWebhook,
+  deleteWebhook,
+  getDeliveries,
+  getWebhook,
+  getWebhooks,
+  updateWebhook,
+  validateDeliveryQuery,
+  validateWebhookCreation,
+  validateWebhookUpdate
+} from '../Database/webhook.db.js';
+import type { DeliveryQuerySchema, WebhookToCreateSchema, WebhookToUpdateSchema } from '../Database/webhook.db.js';
+import { canReadNotepad } from '../auth/policy.js';
+import { authMiddleware, jsonBody, queryParams } from './middleware.js';
+import type { AppEnv, QueryOf } from './middleware.js';
+import { getUserId, auditContext } from './helpers.js';
+
+// Finds a webhook of the caller, null when it does not exist or belongs to someone else
+const findOwnWebhook = async (c: Context) => {
+  const id = parseInt(c.req.param('id'));
+  if (isNaN(id)) return null;
+
+  const webhook = await getWebhook(id);
+  return webhook && webhook.ownerId === getUserId(c) ? webhook : null;
+};
+
+// Answers a URL that is valid but points to an address webhooks may not call, in the shape of the other validation errors
+const invalidTarget = (c: Context, reason: string) => {
+  return c.json({ error: 'Invalid webhook data', errors: { formErrors: [], fieldErrors: { url: [reason] } } }, 400);
+};
+
+export const webhookRoutes = new Hono<AppEnv>()
+  .get('/webhooks', authMiddleware, async (c) => {
+    try {
+      const webhooks = await getWebhooks(getUserId(c) as number);
+      return c.json({ data: webhooks }, 200);
+    } catch (error) {
+      console.error('Error fetching webhooks:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .post('/webhooks', authMiddleware, jsonBody<z.input<typeof WebhookToCreateSchema>>(), async (c) => {
+    const webhookData = c.req.valid('json');
+
+    const validWebhook = validateWebhookCreation(webhookData);
+    if (!validWebhook.success) {
+      return c.json({ error: 'Invalid webhook data', errors: validWebhook.error.flatten() }, 400);
+    }
+
+    try {
+      const blockedReason = await checkWebhookTarget(validWebhook.data.url);
+      if (blockedReason) {
+        return invalidTarget(c, blockedReason);
+      }
+
+      const userId = getUserId(c) as number;
+      const { notepadId } = validWebhook.data;
+      if (notepadId !== undefined && !(await canReadNotepad(notepadId, userId))) {
+        return c.json({ error: 'Notepad not found' }, 404);
+      }
+
+      // The secret is in this response only, receivers need it to check signatures
+      const webhook = await createWebhook(validWebhook.data, userId);
+      return c.json(webhook, 201);
+    } catch (error) {
+      console.error('Error creating webhook:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .get('/webhooks/:id', authMiddleware, async (c) => {
+    try {
+      const webhook = await findOwnWebhook(c);
+      if (!webhook) {
+        return c.json({ error: 'Webhook not found' }, 404);
+      }
+      return c.json(webhook, 200);
+    } catch (error) {
+      console.error('Error fetching webhook:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .patch('/webhooks/:id', authMiddleware, jsonBody<z.input<typeof WebhookToUpdateSchema>>(), async (c) => {
+    const updateData = c.req.valid('json');
+
+    const validUpdate = validateWebhookUpdate(updateData);
+    if (!validUpdate.success) {
+      return c.json({ error: 'Invalid webhook data', errors: validUpdate.error.flatten() }, 400);
+    }
+
+    try {
+      const webhook = await findOwnWebhook(c);
+      if (!webhook) {
+        return c.json({ error: 'Webhook not found' }, 404);
+      }
+
+      const blockedReason = validUpdate.data.url ? await checkWebhookTarget(validUpdate.data.url) : null;
+      if (blockedReason) {
+        return invalidTarget(c, blockedReason);
+      }
+
+      const updatedWebhook = await updateWebhook(webhook.id, validUpdate.data);
+      if (!updatedWebhook) {
+        return c.json({ error: 'Webhook not found' }, 404);
+      }
+      return c.json(updatedWebhook, 200);
+    } catch (error) {
+      console.error('Error updating webhook:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  .delete('/webhooks/:id', authMiddleware, async (c) => {
+    try {
+      const webhook = await findOwnWebhook(c);
+      if (!webhook || !(await deleteWebhook(webhook.id, auditContext(c)))) {
+        return c.json({ error: 'Webhook not found' }, 404);
+      }
+      return c.json({ message: 'Webhook deleted' }, 200);
+    } catch (error) {
+      console.error('Error deleting webhook:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Lists the latest deliveries of a webhook with the outcome of their last attempt
+  .get('/webhooks/:id/deliveries', authMiddleware, queryParams<QueryOf<typeof DeliveryQuerySchema>>(), async (c) => {
+    const query = validateDeliveryQuery(c.req.query());
+    if (!query.success) {
+      return c.json({ error: 'Invalid query parameters', errors: query.error.flatten() }, 400);
+    }
+
+    try {
+      const webhook = await findOwnWebhook(c);
+      if (!webhook) {
+        return c.json({ error: 'Webhook not found' }, 404);
+      }
+
+      const deliveries = await getDeliveries(webhook.id, query.data);
+      return c.json({ data: deliveries }, 200);
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  })
+  // Sends a webhook.test event right away and returns how it went, it is retried like any other delivery if it failed
+  .post('/webhooks/:id/test', authMiddleware, async (c) => {
+    try {
+      const webhook = await findOwnWebhook(c);
+      if (!webhook) {
+        return c.json({ error: 'Webhook not found' }, 404);
+      }
+
+      const delivery = await sendTestEvent(webhook.id);
+      return c.json(delivery, 202);
+    } catch (error) {
+      console.error('Error sending test event:', error);
+      return c.json({ error: 'Internal Server Error' }, 500);
+    }
+  });
@@ -0,0 +1,52 @@
+import { createReadStream } from 'fs';
+import { mkdir, rename, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import type { ByteRange, Storage } from './storage.js';
+
+/**
+ * Creates a storage that keeps every file in a directory on the local disk
+ * @param {string} directory - Where the files go, created when the first file is stored
+ * @returns {Storage}
+ */
+export function createLocalStorage(directory: string): Storage {
+  const root = resolve(directory);
+
+  // Keys are generated by the API, this only guards against one ever pointing outside the directory
+  const pathOf = (key: string) => {
+    const path = resolve(root, key);
+    if (!path.startsWith(root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  };
+
+  return {
+    async put(key: string, data: Uint8Array) {
+      const path = pathOf(key);
+      await mkdir(dirname(path), { recursive: true });
+
+      // Written next to its final name and renamed, so a reader never sees half a file
+      const partial = `${path}.${process.pid}.partial`;
+      await writeFile(partial, data);
+      await rename(partial, path);
+    },
+
+    async get(key: string, range?: ByteRange) {
+      const path = pathOf(key);
+      try {
+        await stat(path);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+
+      const stream = createReadStream(path, range ? { start: range.start, end: range.end } : {});
+      return Readable.toWeb(stream) as ReadableStream<Uint8Array>;
+    },
+
+    async delete(key: string) {
+      await rm(pathOf(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import { createHash, createHmac } from 'crypto';
+import type { ByteRange, Storage } from './storage.js';
+
+export type S3Options = {
+  endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com, or http://localhost:9000 for MinIO
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean; // Address the bucket as /bucket/key rather than bucket.host/key, needed by most stand-ins
+};
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+
+const sha256 = (data: string | Uint8Array) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// S3 wants every path segment encoded as in RFC 3986, which encodeURIComponent almost does
+const encodeKey = (key: string) =>
+  key
+    .split('/')
+    .map((segment) => encodeURIComponent(segment).replace(/[!'()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+
+/**
+ * Creates a storage that keeps files in an S3 bucket. Requests are signed with AWS Signature Version 4,
+ * so it works with S3 itself and with compatible services such as MinIO, R2 or a local stand-in.
+ * @param {S3Options} options - Where the bucket is and how to sign in to it
+ * @param {typeof fetch} [fetchImpl] - Sends the requests, defaults to the global fetch
+ * @returns {Storage}
+ */
+export function createS3Storage(options: S3Options, fetchImpl: typeof fetch = fetch): Storage {
+  const endpoint = new URL(options.endpoint);
+
+  const urlOf = (key: string) => {
+    const url = new URL(endpoint.toString());
+    const basePath = url.pathname.replace(/\/$/, '');
+    if (options.forcePathStyle) {
+      url.pathname = `${basePath}/${encodeURIComponent(options.bucket)}/${encodeKey(key)}`;
+    } else {
+      url.host = `${options.bucket}.${url.host}`;
+      url.pathname = `${basePath}/${encodeKey(key)}`;
+    }
+    return url;
+  };
+
+  // Adds the AWS Signature Version 4 headers to a request without a query string
+  const sign = (method: string, url: URL, headers: Record<string, string>, payloadHash: string) => {
+    const amzDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, ''); // e.g. 20261019T120000Z
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${options.region}/s3/aws4_request`;
+
+    const signed: Record<string, string> = {
+      ...headers,
+      'x-amz-date': amzDate,
+      'x-amz-content-sha256': payloadHash,
+    };
+
+    // Header names are given in lower case. Host is signed but not sent, fetch sets it from the URL.
+    const canonical: Record<string, string> = { ...signed, host: url.host };
+    const names = Object.keys(canonical).sort();
+    const canonicalHeaders = names.map((name) => `${name}:${canonical[name].trim()}\n`).join('');
+    const signedHeaders = names.join(';');
+
+    const canonicalRequest = [method, url.pathname, '', canonicalHeaders, signedHeaders, payloadHash].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${options.secretAccessKey}`, dateStamp), options.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      ...signed,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  };
+
+  return {
+    async put(key: string, data: Uint8Array, contentType: string) {
+      const url = urlOf(key);
+      const response = await fetchImpl(url, {
+        method: 'PUT',
+        headers: sign('PUT', url, { 'content-type': contentType }, sha256(data)),
+        body: data,
+      });
+
+      if (!response.ok) {
+        throw new Error(`S3 PUT ${key} failed with status ${response.status}: ${await response.text()}`);
+      }
+    },
+
+    async get(key: string, range?: ByteRange) {
+      const url = urlOf(key);
+      const headers: Record<string, string> = range ? { range: `bytes=${range.start}-${range.end}` } : {};
+      const response = await fetchImpl(url, { method: 'GET', headers: sign('GET', url, headers, EMPTY_PAYLOAD_HASH) });
+
+      if (response.status === 404) {
+        await response.body?.cancel();
+        return null;
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`S3 GET ${key} failed with status ${response.status}: ${await response.text()}`);
+      }
+
+      return response.body;
+    },
+
+    async delete(key: string) {
+      const url = urlOf(key);
+      const response = await fetchImpl(url, { method: 'DELETE', headers: sign('DELETE', url, {}, EMPTY_PAYLOAD_HASH) });
+
+      // S3 answers 204 whether or not the object existed, some stand-ins answer 404
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 DELETE ${key} failed with status ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
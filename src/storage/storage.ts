@@ -0,0 +1,34 @@
+import { config } from '../config.js';
+import { createLocalStorage } from './local.js';
+import { createS3Storage } from './s3.js';
+
+// A slice of a file, both ends included as in a Range header
+export type ByteRange = {
+  start: number;
+  end: number;
+};
+
+// Anywhere attachment files can be kept, so the API does not depend on a specific backend
+export interface Storage {
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  get(key: string, range?: ByteRange): Promise<ReadableStream<Uint8Array> | null>; // null when there is no such file
+  delete(key: string): Promise<void>; // Does nothing when there is no such file
+}
+
+/**
+ * Creates the storage selected by configuration.
+ * 'local' keeps files in a directory, 's3' in a bucket of S3 or any service that speaks its API, e.g. MinIO.
+ * @returns {Storage}
+ */
+export function createStorage(): Storage {
+  if (config.storage.driver === 's3') {
+    if (!config.storage.s3.bucket) {
+      throw new Error('S3_BUCKET must be set when STORAGE_DRIVER is s3');
+    }
+    return createS3Storage(config.storage.s3);
+  }
+
+  return createLocalStorage(config.storage.localDir);
+}
+
+export const storage = createStorage();
@@ -0,0 +1,137 @@
+import { createHmac } from 'crypto';
+import { config } from '../config.js';
+import { eventBus } from '../events/bus.js';
+import {
+  claimDueDeliveries,
+  enqueueDeliveries,
+  enqueueTestDelivery,
+  recordDeliveryAttempt,
+} from '../Database/webhook.db.js';
+import type { DueDelivery } from '../Database/webhook.db.js';
+import { BlockedTarget, postToWebhook } from './target.js';
+
+// Deliveries sent per run of the queue
+const BATCH_SIZE = 20;
+
+// A claimed delivery is left alone by other processes for this long, well past the request timeout
+const leaseMs = () => config.webhooks.timeoutSeconds * 3 * 1000;
+
+/**
+ * Signs the body of a delivery. Receivers compute the HMAC-SHA256 of `${t}.${body}` with their
+ * secret, compare it to v1 and reject old timestamps to prevent replays.
+ * @param {string} secret - The secret of the webhook
+ * @param {number} timestamp - Unix time in seconds
+ * @param {string} body - The exact request body
+ * @returns {string} - The value of the X-Notepad-Signature header
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Works out how long to wait before the next attempt, doubling after every failure
+ * @param {number} attempts - Attempts made so far
+ * @returns {number} - Milliseconds
+ */
+function retryDelay(attempts: number): number {
+  const { backoffBaseSeconds, backoffMaxSeconds } = config.webhooks;
+  return Math.min(backoffMaxSeconds, backoffBaseSeconds * 2 ** (attempts - 1)) * 1000;
+}
+
+/**
+ * Sends a claimed delivery and records the outcome, scheduling a retry if it failed
+ * @param {DueDelivery} delivery - The delivery
+ * @returns {Promise<Awaited<ReturnType<typeof recordDeliveryAttempt>>>} - The delivery after the attempt
+ */
+export async function sendDelivery(delivery: DueDelivery) {
+  const body = JSON.stringify({ id: delivery.id, ...(delivery.payload as object) });
+  const timestamp = Math.floor(Date.now() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // The addresses are checked as the connection is made, the host may resolve to others since the webhook was saved.
+    // A redirect counts as a failure, the URL should be updated instead.
+    const headers = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Notepad-Webhooks/1',
+      'X-Notepad-Event': delivery.event,
+      'X-Notepad-Delivery': String(delivery.id),
+      'X-Notepad-Signature': signPayload(delivery.webhook.secret, timestamp, body),
+    };
+    responseStatus = await postToWebhook(delivery.webhook.url, headers, body, config.webhooks.timeoutSeconds * 1000);
+
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `Receiver answered with status ${responseStatus}`;
+    }
+  } catch (e) {
+    // The error is shown to the owner of the webhook, so it says what went wrong without details of the network
+    if (e instanceof BlockedTarget) {
+      error = e.message;
+    } else if (e instanceof Error && (e.name === 'AbortError' || e.name === 'TimeoutError')) {
+      error = `No response within ${config.webhooks.timeoutSeconds} seconds`;
+    } else {
+      console.error(`Error sending webhook delivery ${delivery.id}:`, e);
+      error = 'Could not connect to the receiver';
+    }
+  }
+
+  const attempts = delivery.attempts + 1;
+  const retryAt = error === null || attempts >= config.webhooks.maxAttempts ? null : new Date(Date.now() + retryDelay(attempts));
+  return recordDeliveryAttempt(delivery.id, { succeeded: error === null, responseStatus, error, retryAt });
+}
+
+/**
+ * Queues and sends a test event to a webhook
+ * @param {number} webhookId - The webhook ID
+ * @returns {Promise<Awaited<ReturnType<typeof recordDeliveryAttempt>>>} - The delivery after the first attempt
+ */
+export async function sendTestEvent(webhookId: number) {
+  const delivery = await enqueueTestDelivery(webhookId, leaseMs());
+  return sendDelivery(delivery);
+}
+
+let running = false;
+let rerun = false; // Set when deliveries were queued during a run, so the run goes round again
+
+/**
+ * Sends the deliveries that are due, one batch at a time until none are left
+ * @returns {Promise<void>}
+ */
+export async function runWebhookDeliveries(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return;
+  }
+
+  running = true;
+  try {
+    let claimed;
+    do {
+      rerun = false;
+      claimed = await claimDueDeliveries(BATCH_SIZE, leaseMs());
+      await Promise.all(claimed.map((delivery) => sendDelivery(delivery)));
+    } while (claimed.length === BATCH_SIZE || rerun);
+  } catch (error) {
+    console.error('Error sending webhook deliveries:', error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Queues a delivery for every change published on the event bus and sends due deliveries,
+ * right after an event and on an interval for retries
+ * @returns {void}
+ */
+export function startWebhookDispatcher(): void {
+  eventBus.subscribeAll((event) => {
+    enqueueDeliveries(event)
+      .then((count) => (count > 0 ? runWebhookDeliveries() : undefined))
+      .catch((error) => console.error('Error queueing webhook deliveries:', error));
+  });
+
+  setInterval(runWebhookDeliveries, config.webhooks.pollIntervalSeconds * 1000).unref();
+  void runWebhookDeliveries();
+}
@@ -0,0 +1,142 @@
+import { BlockList, isIP } from 'net';
+import type { LookupFunction } from 'net';
+import { lookup as lookupCallback } from 'dns';
+import { lookup } from 'dns/promises';
+import { request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { config } from '../config.js';
+
+const NOT_PUBLIC = 'The URL must point to a public address';
+
+/**
+ * Raised when a webhook would connect to an address it may not call, the message is safe to show to its owner
+ */
+export class BlockedTarget extends Error {
+  constructor() {
+    super(NOT_PUBLIC);
+    this.name = 'BlockedTarget';
+  }
+}
+
+// Addresses a webhook may not call: loopback, private networks, link-local (cloud metadata) and other special ranges
+const blocked = new BlockList();
+blocked.addSubnet('0.0.0.0', 8, 'ipv4');
+blocked.addSubnet('10.0.0.0', 8, 'ipv4');
+blocked.addSubnet('100.64.0.0', 10, 'ipv4'); // Carrier-grade NAT
+blocked.addSubnet('127.0.0.0', 8, 'ipv4');
+blocked.addSubnet('169.254.0.0', 16, 'ipv4');
+blocked.addSubnet('172.16.0.0', 12, 'ipv4');
+blocked.addSubnet('192.0.0.0', 24, 'ipv4');
+blocked.addSubnet('192.168.0.0', 16, 'ipv4');
+blocked.addSubnet('198.18.0.0', 15, 'ipv4'); // Benchmarking
+blocked.addSubnet('224.0.0.0', 3, 'ipv4'); // Multicast, reserved and broadcast
+blocked.addAddress('::', 'ipv6');
+blocked.addAddress('::1', 'ipv6');
+blocked.addSubnet('::ffff:0:0', 96, 'ipv6'); // IPv4 addresses written as IPv6, e.g. ::ffff:127.0.0.1
+blocked.addSubnet('64:ff9b::', 96, 'ipv6'); // NAT64, reaches IPv4 addresses
+blocked.addSubnet('fc00::', 7, 'ipv6'); // Unique local
+blocked.addSubnet('fe80::', 10, 'ipv6');
+blocked.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Tells if an IP address is one a webhook may call
+ * @param {string} address - An IPv4 or IPv6 address
+ * @returns {boolean}
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !blocked.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves the host of a webhook URL and checks that every address it resolves to is public,
+ * so a webhook cannot be used to reach the server itself or the network it runs in
+ * @param {string} url - The webhook URL
+ * @returns {Promise<string | null>} - Why the URL cannot be used, null if it can
+ */
+export async function checkWebhookTarget(url: string): Promise<string | null> {
+  if (config.webhooks.allowPrivateTargets) {
+    return null;
+  }
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, ''); // IPv6 hosts come in brackets
+
+  let addresses;
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true });
+  } catch {
+    return 'The host of the URL could not be resolved';
+  }
+
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    return NOT_PUBLIC;
+  }
+  return null;
+}
+
+// Resolves the host of a webhook connection and fails when any of its addresses is not public.
+// The socket connects to the addresses checked here, so the host cannot answer with another one in between.
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookupCallback(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const allowed = config.webhooks.allowPrivateTargets || addresses.every(({ address }) => isPublicAddress(address));
+    if (addresses.length === 0 || !allowed) {
+      callback(new BlockedTarget(), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * POSTs a delivery to a webhook, checking every address it connects to. Redirects are not followed.
+ * @param {string} url - The webhook URL
+ * @param {Record<string, string>} headers - The request headers
+ * @param {string} body - The request body
+ * @param {number} timeoutMs - How long to wait for the response
+ * @returns {Promise<number>} - The status the receiver answered with
+ * @throws {BlockedTarget} - If the host is or resolves to an address webhooks may not call
+ */
+export function postToWebhook(url: string, headers: Record<string, string>, body: string, timeoutMs: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+
+    // Addresses written in the URL are connected to without a lookup, so they are checked here
+    if (isIP(host) && !config.webhooks.allowPrivateTargets && !isPublicAddress(host)) {
+      reject(new BlockedTarget());
+      return;
+    }
+
+    const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+    const request = send(
+      target,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+        agent: false, // A fresh connection every time, pooled sockets were not made with checkedLookup
+        lookup: checkedLookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (response) => {
+        response.resume(); // The body is not read
+        resolve(response.statusCode ?? 0);
+      }
+    );
+
+    request.on('error', reject);
+    request.end(body);
+  });
+}